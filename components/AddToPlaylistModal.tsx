@@ -1,9 +1,9 @@
 import React from 'react';
 import { X, Plus, Music } from 'lucide-react';
+import Artwork from '@/components/Artwork';
 import { useTheme } from '@/components/ThemeContext';
+import { playlistArtwork, songArtwork } from '@/lib/artwork';
 import { Song, Playlist } from '@/types';
-import { getFileLink } from '@/lib/pcloud'; // adjust path if needed
-import { useEffect } from 'react';
 
 interface AddToPlaylistModalProps {
   isOpen: boolean;
@@ -12,8 +12,6 @@ interface AddToPlaylistModalProps {
   playlists: Playlist[];
   onAddToPlaylist: (playlistId: string, song: Song) => void;
   onCreatePlaylist: () => void;
-  imageUrls: Record<string, string>;
-  setImageUrls: React.Dispatch<React.SetStateAction<Record<string, string>>>;
 }
 
 const AddToPlaylistModal: React.FC<AddToPlaylistModalProps> = ({ 
@@ -22,9 +20,7 @@ const AddToPlaylistModal: React.FC<AddToPlaylistModalProps> = ({
   song,
   playlists,
   onAddToPlaylist,
-  onCreatePlaylist,
-  imageUrls,
-  setImageUrls
+  onCreatePlaylist
 }) => {
   const { isDarkMode } = useTheme();
 
@@ -39,30 +35,6 @@ const AddToPlaylistModal: React.FC<AddToPlaylistModalProps> = ({
     onCreatePlaylist();
   };
 
-useEffect(() => {
-  const preloadFirstSongImages = async () => {
-    const updates: Record<string, string> = {};
-
-    for (const playlist of playlists) {
-      const firstSong = playlist.songs?.[0];
-      if (firstSong && !imageUrls[firstSong.id]) {
-        try {
-          const link = await getFileLink(firstSong.img_id);
-          updates[firstSong.id] = link;
-        } catch (error) {
-          console.error('Failed to fetch image link:', error);
-        }
-      }
-    }
-
-    if (Object.keys(updates).length > 0) {
-      setImageUrls(prev => ({ ...prev, ...updates }));
-    }
-  };
-
-  preloadFirstSongImages();
-}, [playlists, imageUrls, setImageUrls]);
-
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
       <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-lg p-6 w-full max-w-md max-h-[80vh] overflow-hidden flex flex-col`}>
@@ -79,7 +51,7 @@ useEffect(() => {
         {/* Song Info */}
         <div className={`flex items-center p-3 ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'} rounded-lg mb-4`}>
           <img
-            src={imageUrls[song.id] || '/placeholder.png'}
+            {...songArtwork(song, 48)}
             alt={song.name}
             className="w-12 h-12 rounded-lg object-cover mr-3"
           />
@@ -108,10 +80,6 @@ useEffect(() => {
           <div className="space-y-2">
             {playlists.map((playlist) => {
                 const songExists = playlist.songs.some(s => s.id === song.id);
-                const firstSongId = playlist.songs?.[0]?.id;
-                const image = firstSongId && imageUrls[firstSongId]
-                  ? imageUrls[firstSongId]
-                  : '/placeholder.png';
 
                 return (
                   <button
@@ -124,10 +92,10 @@ useEffect(() => {
                         : `${isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'}`
                     }`}
                   >
-                    <img
-                      src={image}
+                    <Artwork
+                      source={playlistArtwork(playlist, 48)}
                       alt={playlist.name}
-                      className="w-12 h-12 rounded-lg object-cover mr-3"
+                      className="w-12 h-12 rounded-lg mr-3 flex-shrink-0"
                     />
                     <div className="flex-1 text-left">
                       <h4 className="font-medium">{playlist.name}</h4>
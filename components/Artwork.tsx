@@ -0,0 +1,27 @@
+import React from 'react';
+import { Music } from 'lucide-react';
+import { useTheme } from '@/components/ThemeContext';
+import { ArtworkSource } from '@/lib/artwork';
+
+interface ArtworkProps {
+  // Without a source a placeholder is shown
+  source: ArtworkSource | null;
+  alt: string;
+  className?: string;
+}
+
+const Artwork: React.FC<ArtworkProps> = ({ source, alt, className = '' }) => {
+  const { isDarkMode } = useTheme();
+
+  if (!source) {
+    return (
+      <div className={`${className} ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'} flex items-center justify-center`}>
+        <Music size={20} className={isDarkMode ? 'text-gray-400' : 'text-gray-500'} />
+      </div>
+    );
+  }
+
+  return <img {...source} alt={alt} className={`${className} object-cover`} />;
+};
+
+export default Artwork;
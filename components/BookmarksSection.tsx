@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Bookmark as BookmarkIcon, Plus, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useTheme } from '@/components/ThemeContext';
+import { Bookmark } from '@/types';
+
+interface BookmarksSectionProps {
+  bookmarks: Bookmark[];
+  currentTime: number;
+  formatTime: (seconds: number) => string;
+  onSeek: (time: number) => void;
+  onAdd: (position: number, name: string) => Promise<void>;
+  onDelete: (bookmarkId: string) => Promise<void>;
+}
+
+const BookmarksSection: React.FC<BookmarksSectionProps> = ({
+  bookmarks,
+  currentTime,
+  formatTime,
+  onSeek,
+  onAdd,
+  onDelete
+}) => {
+  const { isDarkMode } = useTheme();
+  // Position captured when "Add" was pressed, so naming it doesn't drift
+  const [draftPosition, setDraftPosition] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startDraft = () => {
+    setDraftPosition(currentTime);
+    setDraftName('');
+  };
+
+  const handleSave = async () => {
+    if (draftPosition === null) return;
+    const name = draftName.trim() || `Bookmark at ${formatTime(draftPosition)}`;
+
+    setIsSaving(true);
+    try {
+      await onAdd(draftPosition, name);
+      setDraftPosition(null);
+    } catch {
+      toast.error('Could not save bookmark');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (bookmark: Bookmark) => {
+    try {
+      await onDelete(bookmark.id);
+    } catch {
+      toast.error('Could not delete bookmark');
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className={`text-lg font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          Bookmarks
+        </h3>
+        {draftPosition === null && (
+          <button
+            onClick={startDraft}
+            className={`flex items-center text-sm px-3 py-1.5 rounded-full ${isDarkMode ? 'bg-gray-800 hover:bg-gray-700 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'} transition-colors`}
+          >
+            <Plus size={14} className="mr-1" />
+            Add at {formatTime(currentTime)}
+          </button>
+        )}
+      </div>
+
+      {draftPosition !== null && (
+        <div className="flex space-x-2 mb-3">
+          <input
+            type="text"
+            autoFocus
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setDraftPosition(null);
+            }}
+            placeholder={`Name for ${formatTime(draftPosition)}`}
+            maxLength={60}
+            className={`flex-1 px-3 py-2 rounded-lg ${isDarkMode ? 'bg-gray-800 text-white placeholder-gray-400' : 'bg-gray-100 text-gray-900 placeholder-gray-500'} focus:outline-none focus:ring-2 focus:ring-purple-500`}
+          />
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="bg-purple-500 hover:bg-purple-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setDraftPosition(null)}
+            className={`p-2 ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'} rounded-full transition-colors`}
+            aria-label="Cancel"
+          >
+            <X size={18} />
+          </button>
+        </div>
+      )}
+
+      {bookmarks.length === 0 && draftPosition === null ? (
+        <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          Mark passages of this song to jump back to them.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {bookmarks.map(bookmark => (
+            <div
+              key={bookmark.id}
+              className={`flex items-center p-3 ${
+                isDarkMode ? 'bg-gray-800/50 hover:bg-gray-800' : 'bg-white/50 hover:bg-white border border-gray-200'
+              } rounded-lg transition-all`}
+            >
+              <button onClick={() => onSeek(bookmark.position)} className="flex-1 flex items-center min-w-0 text-left">
+                <BookmarkIcon size={16} className="mr-3 text-purple-400 flex-shrink-0" />
+                <span className="text-sm font-mono text-purple-400 mr-3">{formatTime(bookmark.position)}</span>
+                <span className={`truncate ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{bookmark.name}</span>
+              </button>
+              <button
+                onClick={() => handleDelete(bookmark)}
+                className={`p-1 rounded-full ${isDarkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-500'} transition-all`}
+                aria-label={`Delete bookmark ${bookmark.name}`}
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookmarksSection;
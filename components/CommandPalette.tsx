@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListMusic, LucideIcon, Search } from 'lucide-react';
+import { useTheme } from '@/components/ThemeContext';
+import { songArtwork } from '@/lib/artwork';
+import { Playlist, Song } from '@/types';
+
+export interface PaletteAction {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  actions: PaletteAction[];
+  songs: Song[];
+  playlists: Playlist[];
+  onPlaySong: (song: Song, query: string) => void;
+  onOpenPlaylist: (playlist: Playlist) => void;
+}
+
+// Songs only show up once something is typed; the catalog is too long to list
+const MAX_SONGS = 8;
+const MAX_PLAYLISTS = 5;
+
+interface Result {
+  key: string;
+  group: 'Actions' | 'Playlists' | 'Songs';
+  label: string;
+  detail?: string;
+  icon?: LucideIcon;
+  song?: Song;
+  run: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({
+  isOpen,
+  onClose,
+  actions,
+  songs,
+  playlists,
+  onPlaySong,
+  onOpenPlaylist
+}) => {
+  const { isDarkMode } = useTheme();
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setSelected(0);
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  if (!isOpen) return null;
+
+  const needle = query.trim().toLowerCase();
+  const matches = (...fields: string[]) => !needle || fields.some(field => field.toLowerCase().includes(needle));
+
+  const results: Result[] = [
+    ...actions
+      .filter(action => matches(action.label))
+      .map(action => ({ key: `action-${action.id}`, group: 'Actions' as const, label: action.label, icon: action.icon, run: action.run })),
+    ...playlists
+      .filter(playlist => matches(playlist.name))
+      .slice(0, MAX_PLAYLISTS)
+      .map(playlist => ({
+        key: `playlist-${playlist.id}`,
+        group: 'Playlists' as const,
+        label: playlist.name,
+        detail: `${playlist.songCount} songs`,
+        icon: ListMusic,
+        run: () => onOpenPlaylist(playlist)
+      })),
+    ...(needle
+      ? songs
+          .filter(song => matches(song.name, song.artist))
+          .slice(0, MAX_SONGS)
+          .map(song => ({
+            key: `song-${song.file_id}`,
+            group: 'Songs' as const,
+            label: song.name,
+            detail: song.artist,
+            song,
+            run: () => onPlaySong(song, query.trim())
+          }))
+      : [])
+  ];
+
+  const runResult = (result: Result) => {
+    onClose();
+    result.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[selected]) {
+      e.preventDefault();
+      runResult(results[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-start justify-center p-4 pt-24" onClick={onClose}>
+      <div
+        className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-lg w-full max-w-lg shadow-2xl overflow-hidden`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={`flex items-center px-4 border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <Search size={18} className={isDarkMode ? 'text-gray-400' : 'text-gray-500'} />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search songs, playlists and actions"
+            className={`flex-1 px-3 py-4 bg-transparent focus:outline-none ${isDarkMode ? 'text-white placeholder-gray-400' : 'text-gray-900 placeholder-gray-500'}`}
+          />
+          <kbd className={`text-xs px-2 py-1 rounded ${isDarkMode ? 'bg-gray-700 text-gray-400' : 'bg-gray-100 text-gray-500'}`}>Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-96 overflow-y-auto py-2">
+          {results.length === 0 && (
+            <p className={`px-4 py-6 text-center text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              No results for "{query}"
+            </p>
+          )}
+          {results.map((result, index) => {
+            const Icon = result.icon;
+            return (
+              <React.Fragment key={result.key}>
+                {result.group !== results[index - 1]?.group && (
+                  <p className={`px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                    {result.group}
+                  </p>
+                )}
+                <button
+                  data-index={index}
+                  onClick={() => runResult(result)}
+                  onMouseMove={() => setSelected(index)}
+                  className={`w-full flex items-center px-4 py-2 text-left transition-colors ${
+                    index === selected ? (isDarkMode ? 'bg-gray-700' : 'bg-gray-100') : ''
+                  }`}
+                >
+                  {result.song ? (
+                    <img
+                      {...songArtwork(result.song, 32)}
+                      alt={result.song.name}
+                      className="w-8 h-8 rounded object-cover mr-3 flex-shrink-0"
+                    />
+                  ) : Icon ? (
+                    <Icon size={18} className="mr-3 ml-1.5 text-purple-400 flex-shrink-0" />
+                  ) : null}
+                  <span className={`truncate ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{result.label}</span>
+                  {result.detail && (
+                    <span className={`ml-2 text-sm truncate ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{result.detail}</span>
+                  )}
+                </button>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
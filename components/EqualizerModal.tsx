@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Save, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useTheme } from '@/components/ThemeContext';
+import { PlaybackSettings } from '@/hooks/usePlaybackSettings';
+import { BUILT_IN_PRESETS, EQ_BANDS, EQ_RANGE_DB, formatBand } from '@/lib/equalizer';
+import { EqPreset } from '@/types';
+
+type EqualizerSettings = PlaybackSettings['equalizer'];
+
+interface EqualizerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  equalizer: EqualizerSettings;
+  onChange: (equalizer: EqualizerSettings) => void;
+  customPresets: EqPreset[];
+  onSavePreset: (name: string, gains: number[]) => Promise<EqPreset>;
+  onDeletePreset: (presetId: string) => Promise<void>;
+}
+
+const EqualizerModal: React.FC<EqualizerModalProps> = ({
+  isOpen,
+  onClose,
+  equalizer,
+  onChange,
+  customPresets,
+  onSavePreset,
+  onDeletePreset
+}) => {
+  const { isDarkMode } = useTheme();
+  const [presetName, setPresetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!isOpen) return null;
+
+  const selectPreset = (preset: EqPreset) => {
+    onChange({ enabled: true, presetId: preset.id, gains: preset.gains });
+  };
+
+  const setBand = (band: number, gain: number) => {
+    const gains = equalizer.gains.map((value, i) => (i === band ? gain : value));
+    onChange({ enabled: true, presetId: null, gains });
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    try {
+      const preset = await onSavePreset(name, equalizer.gains);
+      onChange({ ...equalizer, presetId: preset.id });
+      setPresetName('');
+      toast.success(`Saved preset "${name}"`);
+    } catch {
+      toast.error('Could not save preset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePreset = async (preset: EqPreset) => {
+    try {
+      await onDeletePreset(preset.id);
+      if (equalizer.presetId === preset.id) {
+        onChange({ ...equalizer, presetId: null });
+      }
+    } catch {
+      toast.error('Could not delete preset');
+    }
+  };
+
+  const presetButtonClass = (preset: EqPreset) =>
+    `px-3 py-1.5 rounded-full text-sm whitespace-nowrap transition-colors ${
+      equalizer.presetId === preset.id
+        ? 'bg-purple-500 text-white'
+        : isDarkMode
+        ? 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+        : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-lg p-6 w-full max-w-md`}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center">
+            <SlidersHorizontal className="mr-2 text-purple-400" size={24} />
+            <h2 className="text-2xl font-bold">Equalizer</h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => onChange({ ...equalizer, enabled: !equalizer.enabled })}
+              className={`w-12 h-6 ${equalizer.enabled ? 'bg-purple-500' : 'bg-gray-300'} rounded-full relative transition-colors`}
+              aria-label={equalizer.enabled ? 'Turn equalizer off' : 'Turn equalizer on'}
+            >
+              <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${equalizer.enabled ? 'right-1' : 'left-1'}`}></div>
+            </button>
+            <button
+              onClick={onClose}
+              className={`p-2 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'} rounded-full transition-colors`}
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Presets */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {BUILT_IN_PRESETS.map(preset => (
+            <button key={preset.id} onClick={() => selectPreset(preset)} className={presetButtonClass(preset)}>
+              {preset.name}
+            </button>
+          ))}
+          {customPresets.map(preset => (
+            <div key={preset.id} className="flex items-center">
+              <button onClick={() => selectPreset(preset)} className={presetButtonClass(preset)}>
+                {preset.name}
+              </button>
+              <button
+                onClick={() => handleDeletePreset(preset)}
+                className={`ml-1 p-1 rounded-full ${isDarkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-500'} transition-colors`}
+                aria-label={`Delete preset ${preset.name}`}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Bands */}
+        <div className={`flex justify-between mb-6 ${equalizer.enabled ? '' : 'opacity-50'}`}>
+          {EQ_BANDS.map((hz, band) => (
+            <div key={hz} className="flex flex-col items-center">
+              <span className={`text-[10px] mb-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                {equalizer.gains[band] > 0 ? '+' : ''}{equalizer.gains[band]}
+              </span>
+              <input
+                type="range"
+                min={-EQ_RANGE_DB}
+                max={EQ_RANGE_DB}
+                step={0.5}
+                value={equalizer.gains[band]}
+                onChange={(e) => setBand(band, Number(e.target.value))}
+                className="h-32 w-4 accent-purple-500"
+                style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                aria-label={`${formatBand(hz)} Hz`}
+              />
+              <span className={`text-[10px] mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                {formatBand(hz)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Save the current curve as a preset */}
+        {equalizer.presetId === null && (
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+              placeholder="Preset name"
+              maxLength={30}
+              className={`flex-1 px-3 py-2 rounded-lg ${isDarkMode ? 'bg-gray-700 text-white placeholder-gray-400' : 'bg-gray-100 text-gray-900 placeholder-gray-500'} focus:outline-none focus:ring-2 focus:ring-purple-500`}
+            />
+            <button
+              onClick={handleSavePreset}
+              disabled={!presetName.trim() || isSaving}
+              className="flex items-center bg-purple-500 hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              <Save size={16} className="mr-2" />
+              Save
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EqualizerModal;
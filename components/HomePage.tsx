@@ -1,6 +1,7 @@
 import { useTheme } from '@/components/ThemeContext';
 import { useAuth } from '@/hooks/useAuth';
-import { Song } from '@/types';
+import { songArtwork } from '@/lib/artwork';
+import { PlaybackContext, Song } from '@/types';
 import { Music, Plus, TrendingUp } from 'lucide-react';
 import React from 'react';
 import SongCard from './SongCard';
@@ -10,20 +11,23 @@ import TrendingSong from './TrendingSong';
 interface HomePageProps {
   songs: Song[];
   personalizedSongs: Song[];
-  onSongPlay: (song: Song) => void;
+  onSongPlay: (song: Song, context: PlaybackContext) => void;
   formatNumber: (num: number) => string;
   onAddToPlaylist: (song: Song) => void;
   onAddToQueue: (song: Song) => void;
-  imageUrls: Record<string, string>;  // NEW
+  onPlayNext: (song: Song) => void;
   onLoadMore: () => void;             // NEW
   hasMoreSongs: boolean;              // NEW
   recentlyPlayedSongs: Song[];        // NEW
 }
 
 
-const HomePage: React.FC<HomePageProps> = ({ songs, personalizedSongs, onSongPlay, formatNumber, onAddToPlaylist, onAddToQueue, imageUrls,onLoadMore,hasMoreSongs, recentlyPlayedSongs }) => {
+const HomePage: React.FC<HomePageProps> = ({ songs, personalizedSongs, onSongPlay, formatNumber, onAddToPlaylist, onAddToQueue, onPlayNext, onLoadMore,hasMoreSongs, recentlyPlayedSongs }) => {
   const { isDarkMode } = useTheme();
   const { user } = useAuth();
+
+  const trending: PlaybackContext = { type: 'recommendations', batch: 'trending' };
+  const madeForYou: PlaybackContext = { type: 'recommendations', batch: 'made-for-you' };
   
   // Show loading state if no songs are loaded yet
   if (songs.length === 0) {
@@ -77,10 +81,9 @@ const HomePage: React.FC<HomePageProps> = ({ songs, personalizedSongs, onSongPla
             {songs.slice(0, 10).map((song) => (
               <TrendingSong 
                 key={song.id}
-                song={{ ...song, image: imageUrls[song.id] || '' }}
-                onPlay={onSongPlay}
+                song={song}
+                onPlay={() => onSongPlay(song, trending)}
                 formatNumber={formatNumber}
-                cachedImageUrl={imageUrls[song.id]}
               />
             ))}
           </div>
@@ -102,10 +105,10 @@ const HomePage: React.FC<HomePageProps> = ({ songs, personalizedSongs, onSongPla
                 <div
                   key={song.id}
                   className="flex items-center p-3 bg-gray-800/50 hover:bg-gray-800 rounded-lg transition-all group cursor-pointer"
-                  onClick={() => onSongPlay({ ...song, image: imageUrls[song.id] || '' })}
+                  onClick={() => onSongPlay(song, { type: 'recommendations', batch: 'recently-played' })}
                 >
                   <img
-                    src={imageUrls[song.id] || '/placeholder.jpg'}
+                    {...songArtwork(song, 64)}
                     alt={song.name}
                     className="w-16 h-16 rounded-lg object-cover shadow-md"
                   />
@@ -135,12 +138,12 @@ const HomePage: React.FC<HomePageProps> = ({ songs, personalizedSongs, onSongPla
               personalizedSongs.map((song) => (
                 <SongCard
                   key={song.id}
-                  song={{ ...song, image: imageUrls[song.id] || '' }}
-                  onPlay={onSongPlay}
+                  song={song}
+                  onPlay={() => onSongPlay(song, madeForYou)}
                   formatNumber={formatNumber}
                   onAddToPlaylist={onAddToPlaylist}
                   onAddToQueue={onAddToQueue}
-                  cachedImageUrl={imageUrls[song.id]}
+                  onPlayNext={onPlayNext}
                 />
               ))
             ) : (
@@ -148,12 +151,12 @@ const HomePage: React.FC<HomePageProps> = ({ songs, personalizedSongs, onSongPla
               songs.map((song) => (
                 <SongCard
                   key={song.id}
-                  song={{ ...song, image: imageUrls[song.id] || '' }}
-                  onPlay={onSongPlay}
+                  song={song}
+                  onPlay={() => onSongPlay(song, madeForYou)}
                   formatNumber={formatNumber}
                   onAddToPlaylist={onAddToPlaylist}
                   onAddToQueue={onAddToQueue}
-                  cachedImageUrl={imageUrls[song.id]}
+                  onPlayNext={onPlayNext}
                 />
               ))
             )}
@@ -170,12 +173,12 @@ const HomePage: React.FC<HomePageProps> = ({ songs, personalizedSongs, onSongPla
                 {songs.map((song) => (
                   <SongCard
                     key={song.id}
-                    song={{ ...song, image: imageUrls[song.id] || '' }}
-                    onPlay={onSongPlay}
+                    song={song}
+                    onPlay={() => onSongPlay(song, trending)}
                     formatNumber={formatNumber}
                     onAddToPlaylist={onAddToPlaylist}
                     onAddToQueue={onAddToQueue}
-                    cachedImageUrl={imageUrls[song.id]}
+                    onPlayNext={onPlayNext}
                   />
                 ))}
               </div>
@@ -1,3 +1,4 @@
+import { usePlayerContext } from '@/components/PlayerContext';
 import { useTheme } from '@/components/ThemeContext';
 import { Song } from '@/types';
 import { ArrowLeft, Heart, Play } from 'lucide-react';
@@ -7,14 +8,13 @@ import SongCard from './SongCard';
 interface LikedSongsPageProps {
   songs: Song[];
   onBack: () => void;
-  onSongPlay: (song: Song) => void;
   onAddToQueue: (song: Song) => void;
-  imageUrls: Record<string, string>;
-  clearQueue: () => void;
+  onPlayNext: (song: Song) => void;
 }
 
-const LikedSongsPage: React.FC<LikedSongsPageProps> = ({ songs, onBack, onSongPlay, onAddToQueue, imageUrls,clearQueue }) => {
+const LikedSongsPage: React.FC<LikedSongsPageProps> = ({ songs, onBack, onAddToQueue, onPlayNext }) => {
   const { isDarkMode } = useTheme();
+  const { playCollection } = usePlayerContext();
 
   const formatNumber = (num: number): string => {
     if (num >= 1000000) {
@@ -26,15 +26,8 @@ const LikedSongsPage: React.FC<LikedSongsPageProps> = ({ songs, onBack, onSongPl
   };
 
   const handlePlayAll = () => {
-    clearQueue();
-    
-  if (songs.length > 0) {
-    onSongPlay(songs[0]); // Start playing the first song
-    songs.slice(1).forEach((song) => {
-      onAddToQueue(song); // Add the rest to queue
-    });
-  }
-};
+    playCollection(songs, { type: 'liked' });
+  };
 
 
   return (
@@ -79,14 +72,14 @@ const LikedSongsPage: React.FC<LikedSongsPageProps> = ({ songs, onBack, onSongPl
       <div className="px-4 pb-4">
         {songs.length > 0 ? (
           <div className="space-y-3">
-            {songs.map((song) => (
+            {songs.map((song, index) => (
               <SongCard 
                 key={song.id} 
-                song={{ ...song, image: imageUrls[song.id] || '/placeholder.png' }} 
-                onPlay={onSongPlay} 
+                song={song}
+                onPlay={() => playCollection(songs, { type: 'liked' }, index)} 
                 formatNumber={formatNumber}
                 onAddToQueue={onAddToQueue}
-                cachedImageUrl={imageUrls[song.id] || '/placeholder.png'}
+                onPlayNext={onPlayNext}
               />
             ))}
           </div>
@@ -1,74 +1,91 @@
+import { usePlayerContext } from '@/components/PlayerContext';
 import { useTheme } from '@/components/ThemeContext';
-import { QueueItem } from '@/hooks/useQueue';
-import { Song } from '@/types';
-import { ChevronDown, Eye, Heart, Moon, MoreHorizontal, Pause, Play, Plus, Repeat, Share2, Shuffle, SkipBack, SkipForward, Volume2 } from 'lucide-react';
-import React, { useState } from 'react';
+import { BookmarkStore, useBookmarks } from '@/hooks/useBookmarks';
+import { songArtwork } from '@/lib/artwork';
+import { describePlaybackContext } from '@/lib/playbackContext';
+import { MIN_LOOP_SECONDS, PLAYBACK_RATES, RepeatMode, ShuffleMode } from '@/lib/playerMachine';
+import { VISUALIZER_STYLES, VisualizerStyle } from '@/lib/visualizer';
+import { AudioLines, Check, ChevronDown, Eye, Heart, Moon, MoreHorizontal, Pause, Play, Plus, Repeat, Share2, Shuffle, SkipBack, SlidersHorizontal, Sparkles, SkipForward, Volume2 } from 'lucide-react';
+import { PlaybackContext } from '@/types';
+import React, { useEffect, useRef, useState } from 'react';
+import BookmarksSection from './BookmarksSection';
 import QueueSection from './QueueSection';
+import Visualizer from './Visualizer';
+import WaveformSeekBar from './WaveformSeekBar';
 
 interface MaximizedPlayerProps {
-  song: Song;
-  isPlaying: boolean;
-  onTogglePlay: () => void;
   onMinimize: () => void;
-  onPrevious: () => void;
-  onNext: () => void;
   onToggleLike: () => void;
   formatNumber: (num: number) => string;
   onAddToPlaylist: () => void;
-  imageUrl?: string;
-  currentTime: number;
-  duration: number;
-  setCurrentTime: (time: number) => void;
-  volume: number;
-  setVolume: (volume: number) => void;
-  isSeeking: boolean;
-  setIsSeeking: (value: boolean) => void;
-  queue: QueueItem[];
-  onRemoveFromQueue: (itemId: string) => void;
-  onSongPlay: (song: Song) => void;
-  imageUrls: Record<string, string>;
-  isShuffleEnabled: boolean;
-  setIsShuffleEnabled: (enabled: boolean) => void;
-  repeatMode: 'off' | 'once' | 'infinite';
-  setRepeatMode: (mode: 'off' | 'once' | 'infinite') => void;
   sleepTimer?: number | 'after-song' | null;
   remainingTime?: number | null;
   onOpenSleepTimer?: () => void;
+  onOpenEqualizer?: () => void;
+  visualizer?: VisualizerStyle;
+  onVisualizerChange?: (style: VisualizerStyle) => void;
+  onOpenContext?: (context: PlaybackContext) => void;
+  bookmarkStore?: BookmarkStore;
+  // Scroll down to the queue when opened (the "Q" shortcut)
+  scrollToQueue?: boolean;
 }
 
 const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
-  song,
-  isPlaying,
-  onTogglePlay,
   onMinimize,
-  onPrevious,
-  onNext,
   onToggleLike,
   formatNumber,
   onAddToPlaylist,
-  imageUrl,
-  currentTime,
-  duration,
-  setCurrentTime,
-  volume,
-  setVolume,
-  setIsSeeking,
-  isSeeking,
-  queue,
-  onRemoveFromQueue,
-  onSongPlay,
-  imageUrls,
-  isShuffleEnabled,
-  setIsShuffleEnabled,
-  repeatMode,
-  setRepeatMode,
   sleepTimer,
   remainingTime,
-  onOpenSleepTimer
+  onOpenSleepTimer,
+  onOpenEqualizer,
+  visualizer = 'off',
+  onVisualizerChange,
+  onOpenContext,
+  bookmarkStore,
+  scrollToQueue
 }) => {
   const { isDarkMode } = useTheme();
+  const {
+    state,
+    isPlaying,
+    togglePlay,
+    previous,
+    next,
+    seek,
+    setVolume,
+    setShuffleMode,
+    setRepeatMode,
+    setPlaybackRate,
+    setPreservesPitch,
+    playbackRate,
+    setLoop,
+    context
+  } = usePlayerContext();
+  const { currentSong: song, currentTime, duration, volume, shuffleMode, repeatMode, loop } = state;
+  const source = describePlaybackContext(context);
+  // The queue isn't a page of its own, so there's nowhere to open
+  const canOpenContext = !!context && context.type !== 'queue' && !!onOpenContext;
   const [showMenu, setShowMenu] = useState(false);
-  const [localSeekTime, setLocalSeekTime] = useState<number | null>(null);
+  const [showSpeed, setShowSpeed] = useState(false);
+  const queueRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollToQueue) queueRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [scrollToQueue]);
+
+  const fileId = song?.file_id ?? null;
+  const { bookmarks, addBookmark, deleteBookmark } = useBookmarks(fileId, bookmarkStore);
+  // A, while B hasn't been set yet; the loop itself lives in the player
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+
+  useEffect(() => {
+    setLoopStart(null);
+  }, [fileId]);
+
+  if (!song) {
+    return null;
+  }
 
   const formatTime = (seconds: number) => {
   if (isNaN(seconds) || !isFinite(seconds)) return '0:00';
@@ -78,35 +95,45 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
+  // The seek bar and its elapsed and total times are shown as they'll pass at
+  // the current speed (a 60 minute track at 2x reads 30:00); positions in the
+  // track, such as loop points and bookmarks, use plain formatTime
+  const formatPlaybackTime = (seconds: number) => formatTime(seconds / playbackRate);
 
-  const progressPercentage = (currentTime / duration) * 100;
+  const loopButtonClass = (isSet: boolean) =>
+    `w-9 h-9 rounded-full text-sm font-semibold disabled:opacity-40 transition-colors ${
+      isSet
+        ? 'bg-purple-500 text-white'
+        : isDarkMode
+        ? 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+        : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+    }`;
 
   const handleLike = () => {
     onToggleLike();
   };
 
   const handleShuffleToggle = () => {
-    const newShuffleState = !isShuffleEnabled;
-    setIsShuffleEnabled(newShuffleState);
-    
-    // If enabling shuffle, disable repeat
-    if (newShuffleState) {
-      setRepeatMode('off');
-    }
+    // Cycle through shuffle modes: off -> shuffle -> smart shuffle -> off
+    const nextMode: Record<ShuffleMode, ShuffleMode> = { off: 'on', on: 'smart', smart: 'off' };
+    setShuffleMode(nextMode[shuffleMode]);
   };
 
   const handleRepeatToggle = () => {
-    // Cycle through repeat modes: off -> once -> infinite -> off
-    let nextMode: 'off' | 'once' | 'infinite';
+    // Cycle through repeat modes:
+    //   off     -> a finished playlist carries on with recommendations
+    //   context -> the playlist / liked songs / list starts over
+    //   track   -> the current song plays again until changed
+    let nextMode: RepeatMode;
     
     switch (repeatMode) {
       case 'off':
-        nextMode = 'once';
+        nextMode = 'context';
         break;
-      case 'once':
-        nextMode = 'infinite';
+      case 'context':
+        nextMode = 'track';
         break;
-      case 'infinite':
+      case 'track':
         nextMode = 'off';
         break;
       default:
@@ -114,18 +141,29 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
     }
     
     setRepeatMode(nextMode);
-    
-    // If enabling repeat, disable shuffle
-    if (nextMode !== 'off') {
-      setIsShuffleEnabled(false);
-    }else{
-      setIsShuffleEnabled(true);
+  };
+
+  const getShuffleIcon = () => {
+    switch (shuffleMode) {
+      case 'smart':
+        return (
+          <div className="relative">
+            <Shuffle size={24} className="text-purple-400" />
+            <span className="absolute -top-1 -right-1 bg-purple-400 text-white rounded-full w-4 h-4 flex items-center justify-center">
+              <Sparkles size={10} />
+            </span>
+          </div>
+        );
+      case 'on':
+        return <Shuffle size={24} className="text-purple-400" />;
+      default:
+        return <Shuffle size={24} className={isDarkMode ? 'text-gray-400' : 'text-gray-600'} />;
     }
   };
 
   const getRepeatIcon = () => {
     switch (repeatMode) {
-      case 'once':
+      case 'track':
         return (
           <div className="relative">
             <Repeat size={24} className="text-purple-400" />
@@ -134,7 +172,7 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
             </span>
           </div>
         );
-      case 'infinite':
+      case 'context':
         return <Repeat size={24} className="text-purple-400" />;
       default:
         return <Repeat size={24} className={isDarkMode ? 'text-gray-400' : 'text-gray-600'} />;
@@ -152,8 +190,17 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
           <ChevronDown size={24} className={isDarkMode ? 'text-white' : 'text-gray-900'} />
         </button>
         <div className="text-center flex-1">
-          <p className={`${isDarkMode ? 'text-gray-400' : 'text-gray-600'} text-sm`}>Playing from</p>
-          <p className={`${isDarkMode ? 'text-white' : 'text-gray-900'} font-medium`}>Trending Now</p>
+          <p className={`${isDarkMode ? 'text-gray-400' : 'text-gray-600'} text-sm`}>{source.title}</p>
+          {canOpenContext ? (
+            <button
+              onClick={() => onOpenContext(context)}
+              className={`${isDarkMode ? 'text-white' : 'text-gray-900'} font-medium hover:underline`}
+            >
+              {source.name}
+            </button>
+          ) : (
+            <p className={`${isDarkMode ? 'text-white' : 'text-gray-900'} font-medium`}>{source.name}</p>
+          )}
         </div>
         <div className="relative">
           <button 
@@ -178,6 +225,39 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
                 <Moon size={16} className="mr-3 text-purple-400" />
                 Sleep Timer
               </button>
+              <button 
+                onClick={() => {
+                  if (onOpenEqualizer) {
+                    onOpenEqualizer();
+                  }
+                  setShowMenu(false);
+                }}
+                className={`w-full text-left px-4 py-2 ${isDarkMode ? 'hover:bg-gray-700 text-white' : 'hover:bg-gray-100 text-gray-900'} flex items-center transition-colors`}
+              >
+                <SlidersHorizontal size={16} className="mr-3 text-purple-400" />
+                Equalizer
+              </button>
+              {onVisualizerChange && (
+                <div className={`py-1 border-y ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <p className={`px-4 py-1 text-xs flex items-center ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    <AudioLines size={14} className="mr-2 text-purple-400" />
+                    Visualizer
+                  </p>
+                  {VISUALIZER_STYLES.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => {
+                        onVisualizerChange(value);
+                        setShowMenu(false);
+                      }}
+                      className={`w-full text-left pl-10 pr-4 py-1.5 text-sm ${isDarkMode ? 'hover:bg-gray-700 text-white' : 'hover:bg-gray-100 text-gray-900'} flex items-center justify-between transition-colors`}
+                    >
+                      {label}
+                      {visualizer === value && <Check size={14} className="text-purple-400" />}
+                    </button>
+                  ))}
+                </div>
+              )}
               <button 
                 onClick={() => {
                   onAddToPlaylist();
@@ -200,11 +280,14 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
       {/* Scrollable Content Area - Properly contained */}
       <div className="flex-1 overflow-y-auto px-4">
         <div className="max-h-full">
-          {/* Album Art - Smaller and centered */}
-          <div className="flex justify-center py-6">
-            <div className="relative w-56 h-56">
+          {/* Album Art - Smaller and centered, over the visualizer when it's on */}
+          <div className="relative flex justify-center items-center py-6">
+            {visualizer !== 'off' && (
+              <Visualizer style={visualizer} isPlaying={isPlaying} className="absolute inset-x-0 inset-y-6 w-full h-56" />
+            )}
+            <div className={`relative ${visualizer !== 'off' ? 'w-40 h-40' : 'w-56 h-56'} transition-all`}>
               <img
-                src={imageUrl || song.image}
+                {...songArtwork(song, 224)}
                 alt={song.name}
                 className="w-full h-full rounded-2xl object-cover shadow-2xl"
               />
@@ -257,45 +340,57 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
           <div className="mb-8">
             <div className="flex items-center justify-between text-sm font-mono mb-2">
               <span className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
-                {formatTime(currentTime)}
+                {formatPlaybackTime(currentTime)}
               </span>
               <span className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
-                {formatTime(duration)}
+                {formatPlaybackTime(duration)}
               </span>
             </div>
 
-           <input
-  type="range"
-  min={0}
-  max={duration}
-  step={0.1}
-  value={isSeeking && localSeekTime !== null ? localSeekTime : currentTime}
-  onChange={(e) => {
-    const newTime = Number(e.target.value);
-    setIsSeeking(true);
-    setLocalSeekTime(newTime); // ✅ Set directly
-  }}
-  onMouseUp={() => {
-    if (localSeekTime !== null) {
-      setIsSeeking(false);
-      setCurrentTime(localSeekTime); // ✅ Triggers audioRef seek in parent
-      setLocalSeekTime(null);
-    } else {
-      console.warn('[MouseUp] localSeekTime was null');
-    }
-  }}
-  onTouchEnd={() => {
-    if (localSeekTime !== null) {
-      setIsSeeking(false);
-      setCurrentTime(localSeekTime); // ✅ Triggers audioRef seek in parent
-      setLocalSeekTime(null);
-    } else {
-      console.warn('[TouchEnd] localSeekTime was null');
-    }
-  }}
-  className="w-full h-2 appearance-none bg-gray-300 rounded-full cursor-pointer"
-  style={{ accentColor: '#a855f7' }}
-/>
+            <WaveformSeekBar
+              fileId={song.file_id}
+              currentTime={currentTime}
+              duration={duration}
+              onSeek={seek}
+              formatTime={formatPlaybackTime}
+              loop={loop ?? (loopStart !== null ? { start: loopStart, end: null } : null)}
+              markers={bookmarks.map(bookmark => bookmark.position)}
+            />
+
+            {/* A–B loop */}
+            <div className="flex items-center justify-center space-x-2 mt-6">
+              <button
+                onClick={() => {
+                  setLoop(null);
+                  setLoopStart(currentTime);
+                }}
+                className={loopButtonClass(loopStart !== null || !!loop)}
+              >
+                A
+              </button>
+              <button
+                onClick={() => {
+                  if (loopStart === null) return;
+                  setLoop({ start: loopStart, end: currentTime });
+                  setLoopStart(null);
+                }}
+                disabled={loopStart === null || currentTime - loopStart < MIN_LOOP_SECONDS}
+                className={loopButtonClass(!!loop)}
+              >
+                B
+              </button>
+              {(loop || loopStart !== null) && (
+                <button
+                  onClick={() => {
+                    setLoop(null);
+                    setLoopStart(null);
+                  }}
+                  className={`text-sm px-3 py-1 rounded-full ${isDarkMode ? 'text-gray-400 hover:text-white' : 'text-gray-600 hover:text-gray-900'} transition-colors`}
+                >
+                  {loop ? `Looping ${formatTime(loop.start)}–${formatTime(loop.end)} · Clear` : 'Clear'}
+                </button>
+              )}
+            </div>
 
           </div>
 
@@ -307,18 +402,18 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
                 onClick={handleShuffleToggle}
                 className={`p-2 ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-200'} rounded-full transition-colors`}
               >
-                <Shuffle size={24} className={isShuffleEnabled ? 'text-purple-400' : isDarkMode ? 'text-gray-400' : 'text-gray-600'} />
+                {getShuffleIcon()}
               </button>
               
               <button 
-                onClick={onPrevious}
+                onClick={previous}
                 className={`p-3 ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-200'} rounded-full transition-colors`}
               >
                 <SkipBack size={28} className={isDarkMode ? 'text-white' : 'text-gray-900'} />
               </button>
               
               <button
-                onClick={onTogglePlay}
+                onClick={togglePlay}
                 className="p-4 bg-purple-500 hover:bg-purple-600 rounded-full transition-colors shadow-lg"
               >
                 {isPlaying ? (
@@ -329,7 +424,7 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
               </button>
               
               <button 
-                onClick={onNext}
+                onClick={next}
                 className={`p-3 ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-200'} rounded-full transition-colors`}
               >
                 <SkipForward size={28} className={isDarkMode ? 'text-white' : 'text-gray-900'} />
@@ -358,7 +453,53 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
                 </span>
               </button>
               
-              {/* Volume Control */}
+              {/* Speed Control */}
+              <div className="relative ml-4">
+                <button
+                  onClick={() => setShowSpeed(!showSpeed)}
+                  className={`px-3 py-2 rounded-full text-sm font-medium transition-colors ${
+                    playbackRate !== 1
+                      ? 'bg-purple-500 text-white hover:bg-purple-600'
+                      : isDarkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                  }`}
+                >
+                  {playbackRate}x
+                </button>
+                {showSpeed && (
+                  <div className={`absolute bottom-12 left-1/2 -translate-x-1/2 ${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg shadow-lg p-3 w-56 z-10`}>
+                    <div className="grid grid-cols-3 gap-2 mb-3">
+                      {PLAYBACK_RATES.map(rate => (
+                        <button
+                          key={rate}
+                          onClick={() => setPlaybackRate(rate)}
+                          className={`py-1.5 rounded-md text-sm transition-colors ${
+                            playbackRate === rate
+                              ? 'bg-purple-500 text-white'
+                              : isDarkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                          }`}
+                        >
+                          {rate}x
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => setPreservesPitch(!state.preservesPitch)}
+                      className={`w-full flex items-center justify-between text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+                    >
+                      <span>Preserve pitch</span>
+                      <div className={`w-10 h-5 ${state.preservesPitch ? 'bg-purple-500' : 'bg-gray-300'} rounded-full relative transition-colors`}>
+                        <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-transform ${state.preservesPitch ? 'right-0.5' : 'left-0.5'}`}></div>
+                      </div>
+                    </button>
+                    {state.songPlaybackRate !== null && (
+                      <p className={`text-xs mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        Remembered for this song
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
               {/* Volume Control */}
               <div className="flex items-center space-x-3 flex-1 max-w-32 ml-6">
                 <Volume2 size={20} className={isDarkMode ? 'text-gray-400' : 'text-gray-600'} />
@@ -377,13 +518,21 @@ const MaximizedPlayer: React.FC<MaximizedPlayerProps> = ({
             </div>
           </div>
           
+          {bookmarkStore && (
+            <BookmarksSection
+              bookmarks={bookmarks}
+              currentTime={currentTime}
+              formatTime={formatTime}
+              onSeek={seek}
+              onAdd={addBookmark}
+              onDelete={deleteBookmark}
+            />
+          )}
+
           {/* Queue Section */}
-          <QueueSection
-            queue={queue}
-            onRemoveFromQueue={onRemoveFromQueue}
-            onSongPlay={onSongPlay}
-            imageUrls={imageUrls}
-          />
+          <div ref={queueRef}>
+            <QueueSection />
+          </div>
         </div>
       </div>
     </div>
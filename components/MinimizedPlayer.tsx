@@ -1,49 +1,48 @@
 import React from 'react';
-import { Play, Pause, SkipForward, SkipBack, X, Heart, MoreHorizontal, Moon } from 'lucide-react';
-import { Song } from '@/types';
+import { Play, Pause, SkipForward, SkipBack, X, Heart, MoreHorizontal, Moon, RotateCcw } from 'lucide-react';
+import { usePlayerContext } from '@/components/PlayerContext';
 import { useTheme } from '@/components/ThemeContext';
+import { songArtwork } from '@/lib/artwork';
 
 interface MinimizedPlayerProps {
-  song: Song;
-  isPlaying: boolean;
-  onTogglePlay: () => void;
   onMaximize: () => void;
-  onPrevious: () => void;
-  onNext: () => void;
-  onClose: () => void;
   onToggleLike: () => void;
   formatNumber: (num: number) => string;
-  imageUrl?: string;
-  currentTime: number;
-  duration: number;
   sleepTimer?: number | 'after-song' | null;
   remainingTime?: number | null;
   onOpenSleepTimer?: () => void;
 }
 
 const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
-  song,
-  isPlaying,
-  onTogglePlay,
   onMaximize,
-  onPrevious,
-  onNext,
-  onClose,
   onToggleLike,
   formatNumber,
-  imageUrl,
-  currentTime,
-  duration,
   sleepTimer,
   remainingTime,
   onOpenSleepTimer
 }) => {
   const { isDarkMode } = useTheme();
+  const {
+    state,
+    isPlaying,
+    togglePlay,
+    previous,
+    next,
+    stop,
+    resumeOffer,
+    acceptResume,
+    dismissResume
+  } = usePlayerContext();
+  const { currentSong: song, currentTime, duration } = state;
   const [showMenu, setShowMenu] = React.useState(false);
 
+  if (!song) {
+    return null;
+  }
+
   const handleClose = (e: React.MouseEvent) => {
     e.stopPropagation();
-    onClose();
+    stop();
   };
 
   const handleLike = (e: React.MouseEvent) => {
@@ -65,6 +64,14 @@ const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
   };
   const progressPercent = duration > 0 ? (currentTime / duration) * 100 : 0;
 
+  // 34:12, or 1:02:05 past an hour
+  const formatPosition = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const mins = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${mins.toString().padStart(2, '0')}:${secs}` : `${mins}:${secs}`;
+  };
+
   return (
     <div className={`fixed bottom-20 left-0 right-0 ${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border-t z-40 shadow-lg`}>
       {/* Progress Bar */}
@@ -75,7 +82,26 @@ const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
       />
     </div>
 
-      
+      {/* Resume from the saved position */}
+      {resumeOffer && (
+        <div className={`flex items-center justify-between px-3 pt-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          <button
+            onClick={acceptResume}
+            className="flex items-center text-purple-400 hover:text-purple-300 font-medium transition-colors"
+          >
+            <RotateCcw size={14} className="mr-2" />
+            Resume from {formatPosition(resumeOffer.position)}?
+          </button>
+          <button
+            onClick={dismissResume}
+            className={`p-1 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'} rounded-full transition-colors`}
+            aria-label="Start from the beginning"
+          >
+            <X size={14} className={isDarkMode ? 'text-gray-400' : 'text-gray-600'} />
+          </button>
+        </div>
+      )}
+
       <div className="flex items-center justify-between p-3">
         {/* Song Info - Clickable to maximize */}
         <div className="flex items-center flex-1 min-w-0 cursor-pointer" onClick={onMaximize}>
@@ -87,7 +113,7 @@ const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
           )}
           
           <img
-            src={imageUrl || song.image}
+            {...songArtwork(song, 48)}
             alt={song.name}
             className="w-12 h-12 rounded-lg object-cover mr-3 flex-shrink-0"
           />
@@ -136,7 +162,7 @@ const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
           <button 
             onClick={(e) => {
               e.stopPropagation();
-              onPrevious();
+              previous();
             }}
             className={`p-2 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'} rounded-full transition-colors`}
           >
@@ -146,7 +172,7 @@ const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
           <button
             onClick={(e) => {
               e.stopPropagation();
-              onTogglePlay();
+              togglePlay();
             }}
             className={`p-2 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'} rounded-full transition-colors`}
           >
@@ -160,7 +186,7 @@ const MinimizedPlayer: React.FC<MinimizedPlayerProps> = ({
           <button
             onClick={(e) => {
               e.stopPropagation();
-              onNext();
+              next();
             }}
             className={`p-2 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'} rounded-full transition-colors`}
           >
@@ -0,0 +1,34 @@
+'use client'
+
+import { Player } from '@/hooks/usePlayer';
+import React, { createContext, useContext } from 'react';
+
+const PlayerContext = createContext<Player | null>(null);
+
+export const usePlayerContext = (): Player => {
+  const player = useContext(PlayerContext);
+  if (!player) {
+    throw new Error('usePlayerContext must be used inside <PlayerProvider>');
+  }
+  return player;
+};
+
+// Shares the player engine with the tree and renders the <audio> elements it
+// drives: one playing, one buffering the next song
+export const PlayerProvider: React.FC<{ player: Player; children: React.ReactNode }> = ({ player, children }) => {
+  return (
+    <PlayerContext.Provider value={player}>
+      {children}
+      {player.decks.map((deck, i) => (
+        <audio
+          key={i}
+          ref={deck.ref}
+          src={deck.src}
+          preload="auto"
+          {...deck.handlers}
+          style={{ display: 'none' }}
+        />
+      ))}
+    </PlayerContext.Provider>
+  );
+};
@@ -1,50 +1,65 @@
+import Artwork from '@/components/Artwork';
+import { usePlayerContext } from '@/components/PlayerContext';
 import { useTheme } from '@/components/ThemeContext';
-import { Playlist, Song } from '@/types';
-import { ArrowLeft, Edit2, MoreHorizontal, Music, Play, Plus, Trash2 } from 'lucide-react';
-import React, { useState } from 'react';
+import { playlistArtwork } from '@/lib/artwork';
+import { PlaybackContext, Playlist, Song } from '@/types';
+import { ArrowLeft, Edit2, ImageIcon, ImageOff, MoreHorizontal, Music, Play, Plus, Trash2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
 import SongCard from './SongCard';
 
 interface PlaylistsPageProps {
   playlists: Playlist[];
   onBack: () => void;
-  onSongPlay: (song: Song) => void;
   onAddToQueue: (song: Song) => void;
+  onPlayNext: (song: Song) => void;
   onCreatePlaylist: () => void;
   onDeletePlaylist: (playlistId: string) => void;
   onRenamePlaylist: (playlistId: string, newName: string) => void;
   onRemoveSongFromPlaylist: (playlistId: string, songId: string) => void;
-  imageUrls: Record<string, string>;
-  clearQueue: () => void; // <-- Add this line
+  onUploadCover: (playlistId: string, file: File) => void;
+  onResetCover: (playlistId: string) => void;
+  // Playlist to show on open, e.g. when coming from "Playing from …"
+  openPlaylistId?: string | null;
 }
 
 
 const PlaylistsPage: React.FC<PlaylistsPageProps> = ({
   playlists, 
   onBack, 
-  onSongPlay,
   onAddToQueue,
+  onPlayNext,
   onCreatePlaylist,
   onDeletePlaylist,
   onRenamePlaylist,
   onRemoveSongFromPlaylist,
-  imageUrls,
-  clearQueue
+  onUploadCover,
+  onResetCover,
+  openPlaylistId
 }) => {
   const { isDarkMode } = useTheme();
+  const { playCollection } = usePlayerContext();
   const [selectedPlaylist, setSelectedPlaylist] = useState<Playlist | null>(null);
   const [showPlaylistMenu, setShowPlaylistMenu] = useState<string | null>(null);
   const [editingPlaylist, setEditingPlaylist] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
-const handlePlayAll = (songs: Song[]) => {
-  if (songs.length === 0) return;
+  const [coverTarget, setCoverTarget] = useState<string | null>(null);
+  const coverInputRef = useRef<HTMLInputElement>(null);
 
-  clearQueue(); // 🧹 Clear existing queue
-  onSongPlay(songs[0]); // ▶️ Play first song
+  useEffect(() => {
+    if (openPlaylistId) {
+      setSelectedPlaylist(playlists.find(p => p.id === openPlaylistId) ?? null);
+    }
+  }, [openPlaylistId]);
 
-  songs.slice(1).forEach((song) => {
-    onAddToQueue(song); // ➕ Add the rest to the queue
+  const playlistContext = (playlist: Playlist): PlaybackContext => ({
+    type: 'playlist',
+    playlistId: playlist.id,
+    name: playlist.name
   });
-};
+
+  const handlePlayAll = (playlist: Playlist) => {
+    playCollection(playlist.songs, playlistContext(playlist));
+  };
 
   const formatNumber = (num: number): string => {
     if (num >= 1000000) {
@@ -77,6 +92,26 @@ const handlePlayAll = (songs: Song[]) => {
     setEditName('');
   };
 
+  const handleChangeCover = (playlistId: string) => {
+    setCoverTarget(playlistId);
+    setShowPlaylistMenu(null);
+    coverInputRef.current?.click();
+  };
+
+  const handleCoverSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && coverTarget) {
+      onUploadCover(coverTarget, file);
+    }
+    e.target.value = '';
+    setCoverTarget(null);
+  };
+
+  const handleResetCover = (playlistId: string) => {
+    onResetCover(playlistId);
+    setShowPlaylistMenu(null);
+  };
+
   const handleDelete = (playlistId: string) => {
     onDeletePlaylist(playlistId);
     setShowPlaylistMenu(null);
@@ -117,14 +152,10 @@ const handlePlayAll = (songs: Song[]) => {
         {/* Playlist Header */}
         <div className="px-4 mb-6">
           <div className="flex items-center mb-4">
-            <img
-              src={
-                selectedPlaylist.songs.length > 0
-                  ? imageUrls[selectedPlaylist.songs[0].id] || '/placeholder.png'
-                  : '/placeholder.png'
-              }
+            <Artwork
+              source={playlistArtwork(selectedPlaylist, 128)}
               alt={selectedPlaylist.name}
-              className="w-32 h-32 rounded-lg object-cover mr-4"
+              className="w-32 h-32 rounded-lg mr-4 flex-shrink-0"
             />
 
             <div>
@@ -134,7 +165,7 @@ const handlePlayAll = (songs: Song[]) => {
               </p>
               {selectedPlaylist.songs.length > 0 && (
                 <button
-                 onClick={() => handlePlayAll(selectedPlaylist.songs)}
+                 onClick={() => handlePlayAll(selectedPlaylist)}
                 className="bg-purple-500 hover:bg-purple-600 text-white px-6 py-2 rounded-full flex items-center transition-colors">
                   <Play size={16} className="mr-2" fill="white" />
                   Play All
@@ -148,16 +179,16 @@ const handlePlayAll = (songs: Song[]) => {
         <div className="px-4 pb-4">
           {selectedPlaylist.songs.length > 0 ? (
             <div className="space-y-3">
-              {selectedPlaylist.songs.map((song) => (
+              {selectedPlaylist.songs.map((song, index) => (
                 <div key={song.id} className="relative group">
                   <SongCard 
-                    song={{ ...song, image: imageUrls[song.id] || '/placeholder.png' }} 
-                    onPlay={onSongPlay} 
+                    song={song}
+                    onPlay={() => playCollection(selectedPlaylist.songs, playlistContext(selectedPlaylist), index)} 
                     formatNumber={formatNumber}
                    onAddToQueue={onAddToQueue}
+                   onPlayNext={onPlayNext}
                     showRemoveButton={true}
                     onRemove={() => handleRemoveSong(song.id)}
-                    cachedImageUrl={imageUrls[song.id] || '/placeholder.png'}
                   />
                 </div>
               ))}
@@ -178,6 +209,14 @@ const handlePlayAll = (songs: Song[]) => {
 
   return (
     <div className={`min-h-screen ${isDarkMode ? 'bg-gray-900 text-white' : 'bg-gray-50 text-gray-900'}`}>
+      <input
+        ref={coverInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={handleCoverSelected}
+      />
+
       {/* Header */}
       <div className={`sticky top-0 ${isDarkMode ? 'bg-gray-900/95' : 'bg-gray-50/95'} backdrop-blur-md z-10 px-4 py-4`}>
         <div className="flex items-center justify-between mb-4">
@@ -207,15 +246,11 @@ const handlePlayAll = (songs: Song[]) => {
               <div key={playlist.id} className="relative">
                 {editingPlaylist === playlist.id ? (
                   <div className={`flex items-center p-4 ${isDarkMode ? 'bg-gray-800' : 'bg-white border border-gray-200'} rounded-lg`}>
-                    <img
-                        src={
-                          playlist.songs.length > 0
-                            ? imageUrls[playlist.songs[0].id] || '/placeholder.png'
-                            : '/placeholder.png'
-                        }
-                        alt={playlist.name}
-                        className="w-16 h-16 rounded-lg object-cover mr-4"
-                      />
+                    <Artwork
+                      source={playlistArtwork(playlist, 64)}
+                      alt={playlist.name}
+                      className="w-16 h-16 rounded-lg mr-4 flex-shrink-0"
+                    />
 
                     <div className="flex-1 flex items-center space-x-3">
                       <input
@@ -245,14 +280,10 @@ const handlePlayAll = (songs: Song[]) => {
                     onClick={() => setSelectedPlaylist(playlist)}
                     className={`w-full flex items-center p-4 ${isDarkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-white hover:bg-gray-50 border border-gray-200'} rounded-lg transition-colors text-left`}
                   >
-                    <img
-                      src={
-                        playlist.songs.length > 0
-                          ? imageUrls[playlist.songs[0].id] || '/placeholder.png'
-                          : '/placeholder.png'
-                      }
+                    <Artwork
+                      source={playlistArtwork(playlist, 64)}
                       alt={playlist.name}
-                      className="w-16 h-16 rounded-lg object-cover mr-4"
+                      className="w-16 h-16 rounded-lg mr-4 flex-shrink-0"
                     />
 
                     <div className="flex-1">
@@ -284,6 +315,28 @@ const handlePlayAll = (songs: Song[]) => {
                             <Edit2 size={16} className="mr-3" />
                             Rename
                           </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleChangeCover(playlist.id);
+                            }}
+                            className={`w-full text-left px-4 py-2 ${isDarkMode ? 'hover:bg-gray-600 text-white' : 'hover:bg-gray-100 text-gray-900'} flex items-center transition-colors`}
+                          >
+                            <ImageIcon size={16} className="mr-3" />
+                            Change cover
+                          </button>
+                          {playlist.coverImgId && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleResetCover(playlist.id);
+                              }}
+                              className={`w-full text-left px-4 py-2 ${isDarkMode ? 'hover:bg-gray-600 text-white' : 'hover:bg-gray-100 text-gray-900'} flex items-center transition-colors`}
+                            >
+                              <ImageOff size={16} className="mr-3" />
+                              Remove custom cover
+                            </button>
+                          )}
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -1,48 +1,191 @@
-import React from 'react';
-import { X, GripVertical, Music } from 'lucide-react';
-import { QueueItem } from '@/hooks/useQueue';
+import React, { useRef, useState } from 'react';
+import { X, GripVertical } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { usePlayerContext } from '@/components/PlayerContext';
 import { useTheme } from '@/components/ThemeContext';
+import { songArtwork } from '@/lib/artwork';
+import { QueueItem } from '@/hooks/useQueue';
+
+// Space between rows (space-y-2)
+const ROW_GAP = 8;
+// A row swiped further than this share of its width is removed
+const SWIPE_REMOVE_SHARE = 0.35;
+// Sideways movement before a press on a row counts as a swipe, not a tap
+const SWIPE_SLOP = 10;
+
+interface Drag {
+  itemId: string;
+  from: number;
+  startY: number;
+  dy: number;
+  rowHeight: number;
+}
 
-interface QueueSectionProps {
-  queue: QueueItem[];
-  onRemoveFromQueue: (itemId: string) => void;
-  onSongPlay: (song: any) => void;
-  imageUrls: Record<string, string>;
+interface Swipe {
+  itemId: string;
+  startX: number;
+  startY: number;
+  dx: number;
+  // Set once the pointer moved sideways far enough
+  active: boolean;
 }
 
-const QueueSection: React.FC<QueueSectionProps> = ({
-  queue,
-  onRemoveFromQueue,
-  onSongPlay,
-  imageUrls
-}) => {
+const showUndoToast = (message: string, undo: () => void) => {
+  toast((t) => (
+    <span className="flex items-center">
+      {message}
+      <button
+        onClick={() => {
+          undo();
+          toast.dismiss(t.id);
+        }}
+        className="ml-3 font-semibold text-purple-500"
+      >
+        Undo
+      </button>
+    </span>
+  ), { duration: 5000 });
+};
+
+const QueueSection: React.FC = () => {
   const { isDarkMode } = useTheme();
+  const { queue, removeFromQueue, restoreQueueItems, moveQueueItem, clearQueue, playSong } = usePlayerContext();
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [swipe, setSwipe] = useState<Swipe | null>(null);
+  // A swipe ends with a click on the row, which must not play the song
+  const suppressClickRef = useRef(false);
 
   if (queue.length === 0) {
     return null;
   }
 
+  const dropIndex = (current: Drag) =>
+    Math.min(queue.length - 1, Math.max(0, current.from + Math.round(current.dy / current.rowHeight)));
+
+  const removeWithUndo = (item: QueueItem, index: number) => {
+    removeFromQueue(item.id);
+    showUndoToast(`Removed "${item.song.name}"`, () => restoreQueueItems([item], index));
+  };
+
+  const handleClear = () => {
+    const cleared = queue;
+    clearQueue();
+    showUndoToast(
+      `Cleared ${cleared.length} song${cleared.length !== 1 ? 's' : ''} from the queue`,
+      () => restoreQueueItems(cleared)
+    );
+  };
+
+  // Reordering, from the grip handle
+  const handleDragStart = (e: React.PointerEvent, item: QueueItem, index: number) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const row = e.currentTarget.closest('[data-queue-row]');
+    const rowHeight = (row?.getBoundingClientRect().height ?? 64) + ROW_GAP;
+    setDrag({ itemId: item.id, from: index, startY: e.clientY, dy: 0, rowHeight });
+  };
+
+  const handleDragMove = (e: React.PointerEvent) => {
+    if (drag) setDrag({ ...drag, dy: e.clientY - drag.startY });
+  };
+
+  const handleDragEnd = () => {
+    if (!drag) return;
+    const to = dropIndex(drag);
+    if (to !== drag.from) moveQueueItem(drag.from, to);
+    setDrag(null);
+  };
+
+  // Swiping a row sideways removes it
+  const handleSwipeStart = (e: React.PointerEvent, item: QueueItem) => {
+    if (drag) return;
+    setSwipe({ itemId: item.id, startX: e.clientX, startY: e.clientY, dx: 0, active: false });
+  };
+
+  const handleSwipeMove = (e: React.PointerEvent) => {
+    if (!swipe) return;
+    const dx = e.clientX - swipe.startX;
+    const dy = e.clientY - swipe.startY;
+    if (!swipe.active) {
+      if (Math.abs(dx) < SWIPE_SLOP || Math.abs(dx) < Math.abs(dy)) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    setSwipe({ ...swipe, dx, active: true });
+  };
+
+  const handleSwipeEnd = (e: React.PointerEvent, item: QueueItem, index: number) => {
+    if (!swipe) return;
+    if (swipe.active) {
+      suppressClickRef.current = true;
+      if (Math.abs(swipe.dx) > e.currentTarget.getBoundingClientRect().width * SWIPE_REMOVE_SHARE) {
+        removeWithUndo(item, index);
+      }
+    }
+    setSwipe(null);
+  };
+
+  const rowStyle = (item: QueueItem, index: number): React.CSSProperties => {
+    if (drag) {
+      if (item.id === drag.itemId) return { transform: `translateY(${drag.dy}px)`, transition: 'none' };
+      const to = dropIndex(drag);
+      // Rows between the old and new place make room for the dragged one
+      if (drag.from < to && index > drag.from && index <= to) return { transform: `translateY(-${drag.rowHeight}px)` };
+      if (to < drag.from && index >= to && index < drag.from) return { transform: `translateY(${drag.rowHeight}px)` };
+      return {};
+    }
+    if (swipe?.active && item.id === swipe.itemId) {
+      return { transform: `translateX(${swipe.dx}px)`, opacity: 1 - Math.min(0.7, Math.abs(swipe.dx) / 300), transition: 'none' };
+    }
+    return {};
+  };
+
   return (
     <div className="mt-6">
       <div className="flex items-center justify-between mb-4">
         <h3 className={`text-lg font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
           Next in Queue
         </h3>
-        <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-          {queue.length} song{queue.length !== 1 ? 's' : ''}
-        </span>
+        <div className="flex items-center space-x-3">
+          <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            {queue.length} song{queue.length !== 1 ? 's' : ''}
+          </span>
+          <button
+            onClick={handleClear}
+            className={`text-sm font-medium ${isDarkMode ? 'text-gray-400 hover:text-white' : 'text-gray-600 hover:text-gray-900'} transition-colors`}
+          >
+            Clear
+          </button>
+        </div>
       </div>
 
       <div className="space-y-2 max-h-64 overflow-y-auto pb-6">
         {queue.map((item, index) => (
           <div
             key={item.id}
-            className={`flex items-center p-3 ${
+            data-queue-row
+            onPointerDown={(e) => handleSwipeStart(e, item)}
+            onPointerMove={handleSwipeMove}
+            onPointerUp={(e) => handleSwipeEnd(e, item, index)}
+            onPointerCancel={() => setSwipe(null)}
+            onClickCapture={(e) => {
+              if (!suppressClickRef.current) return;
+              suppressClickRef.current = false;
+              e.stopPropagation();
+            }}
+            style={rowStyle(item, index)}
+            className={`relative flex items-center p-3 touch-pan-y select-none ${
               isDarkMode ? 'bg-gray-800/50 hover:bg-gray-800' : 'bg-white/50 hover:bg-white border border-gray-200'
-            } rounded-lg transition-all group`}
+            } ${drag?.itemId === item.id ? 'z-10 shadow-lg' : ''} rounded-lg transition-all group`}
           >
             {/* Drag Handle */}
-            <div className="mr-2">
+            <div
+              className="mr-2 cursor-grab active:cursor-grabbing touch-none"
+              onPointerDown={(e) => handleDragStart(e, item, index)}
+              onPointerMove={handleDragMove}
+              onPointerUp={handleDragEnd}
+              onPointerCancel={() => setDrag(null)}
+              aria-label={`Drag to reorder ${item.song.name}`}
+            >
               <GripVertical size={16} className={isDarkMode ? 'text-gray-500' : 'text-gray-400'} />
             </div>
 
@@ -53,14 +196,15 @@ const QueueSection: React.FC<QueueSectionProps> = ({
 
             {/* Song Image */}
             <img
-              src={imageUrls[item.song.id] || '/placeholder.png'}
+              {...songArtwork(item.song, 40)}
               alt={item.song.name}
+              draggable={false}
               className="w-10 h-10 rounded-lg object-cover mr-3 cursor-pointer"
-              onClick={() => onSongPlay(item.song)}
+              onClick={() => playSong(item.song, { type: 'queue' })}
             />
 
             {/* Song Info */}
-            <div className="flex-1 min-w-0 cursor-pointer" onClick={() => onSongPlay(item.song)}>
+            <div className="flex-1 min-w-0 cursor-pointer" onClick={() => playSong(item.song, { type: 'queue' })}>
               <h4 className={`font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'} truncate text-sm`}>
                 {item.song.name}
               </h4>
@@ -70,11 +214,10 @@ const QueueSection: React.FC<QueueSectionProps> = ({
             </div>
 
             {/* Remove Button */}
-              <button
-                onClick={() => onRemoveFromQueue(item.id)}
-                className={`p-1 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-200'} rounded-full transition-colors`}
-              >
-
+            <button
+              onClick={() => removeWithUndo(item, index)}
+              className={`p-1 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-200'} rounded-full transition-colors`}
+            >
               <X size={14} className={isDarkMode ? 'text-gray-400' : 'text-gray-600'} />
             </button>
           </div>
@@ -84,4 +227,4 @@ const QueueSection: React.FC<QueueSectionProps> = ({
   );
 };
 
-export default QueueSection;
\ No newline at end of file
+export default QueueSection;
@@ -1,29 +1,45 @@
 import { useTheme } from '@/components/ThemeContext';
-import { Song } from '@/types';
+import { PlaybackContext, Song } from '@/types';
 import { Music, Plus, Search } from 'lucide-react';
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import SongCard from './SongCard';
 
 interface SearchPageProps {
   songs: Song[];
-  onSongPlay: (song: Song) => void;
+  onSongPlay: (song: Song, context: PlaybackContext) => void;
   formatNumber: (num: number) => string;
   onAddToPlaylist: (song: Song) => void;
   onAddToQueue: (song: Song) => void;
-  imageUrls: Record<string, string>;
-  setImageUrls: React.Dispatch<React.SetStateAction<Record<string, string>>>;
+  onPlayNext: (song: Song) => void;
+  // Search to run on open, e.g. when coming from "Playing from …"
+  initialQuery?: string | null;
+  // Focuses the search field whenever it changes (the "/" shortcut)
+  focusRequest?: number;
 }
 
 
-const SearchPage: React.FC<SearchPageProps> = ({ songs, onSongPlay, formatNumber, onAddToPlaylist, onAddToQueue, imageUrls,setImageUrls }) => {
+const SearchPage: React.FC<SearchPageProps> = ({ songs, onSongPlay, formatNumber, onAddToPlaylist, onAddToQueue, onPlayNext, initialQuery, focusRequest }) => {
   const { isDarkMode } = useTheme();
   const [pendingSearch, setPendingSearch] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [searchSubmitted, setSearchSubmitted] = useState(false);
-  const [isLoadingImages, setIsLoadingImages] = useState(false);
   const [displayCount, setDisplayCount] = useState(10);
   const [liveSuggestions, setLiveSuggestions] = useState<Song[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (focusRequest) inputRef.current?.focus();
+  }, [focusRequest]);
+
+  useEffect(() => {
+    if (initialQuery) {
+      setPendingSearch(initialQuery);
+      setSearchQuery(initialQuery);
+      setSearchSubmitted(true);
+      setDisplayCount(10);
+    }
+  }, [initialQuery]);
 
   
   const filteredSongs = songs.filter(song =>
@@ -34,32 +50,19 @@ const SearchPage: React.FC<SearchPageProps> = ({ songs, onSongPlay, formatNumber
 
   const displayedSongs = filteredSongs.slice(0, displayCount);
   const hasMoreSongs = displayCount < filteredSongs.length;
-  const handleSearchSubmit = async () => {
+  const handleSearchSubmit = () => {
   setSearchQuery(pendingSearch);
   setSearchSubmitted(true);
   setDisplayCount(10);
-  setIsLoadingImages(true);
-
-  const filtered = songs.filter(song =>
-    song.name.toLowerCase().includes(pendingSearch.toLowerCase()) ||
-    song.artist.toLowerCase().includes(pendingSearch.toLowerCase()) ||
-    song.tags.some(tag => tag.toLowerCase().includes(pendingSearch.toLowerCase()))
-  );
-
-  const missingUrls: Record<string, string> = {};
-  for (const song of filtered) {
-    if (!imageUrls[song.img_id]) {
-      missingUrls[song.img_id] = `/api/image-proxy?fileid=${song.img_id}`;
-    }
-  }
-
-  if (Object.keys(missingUrls).length > 0) {
-    setImageUrls(prev => ({ ...prev, ...missingUrls }));
-  }
-
-  setIsLoadingImages(false);
 };
 
+  // A search for exactly an artist's name plays from that artist
+  const searchContext = (): PlaybackContext => {
+    const query = searchQuery.trim().toLowerCase();
+    const artist = songs.find(song => song.artist.toLowerCase() === query)?.artist;
+    return artist ? { type: 'artist', artist } : { type: 'search', query: searchQuery };
+  };
+
   const loadMore = () => {
     setDisplayCount(prev => prev + 10);
   };
@@ -74,6 +77,7 @@ const SearchPage: React.FC<SearchPageProps> = ({ songs, onSongPlay, formatNumber
         <div className="relative">
           <Search className={`absolute left-3 top-1/2 transform -translate-y-1/2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} size={20} />
          <input
+  ref={inputRef}
   type="text"
   placeholder="What do you want to listen to?"
   value={pendingSearch}
@@ -123,7 +127,6 @@ const SearchPage: React.FC<SearchPageProps> = ({ songs, onSongPlay, formatNumber
   </div>
 )}
 
-
         </div>
       </div>
 
@@ -164,28 +167,22 @@ const SearchPage: React.FC<SearchPageProps> = ({ songs, onSongPlay, formatNumber
               {filteredSongs.length > 0 ? `Found ${filteredSongs.length} results` : 'No results found'}
             </h2>
 
-{isLoadingImages ? (
-  <div className="flex items-center justify-center py-10">
-    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-purple-500"></div>
-  </div>
-) : (
   <div className="space-y-3">
     {displayedSongs.map(song => (
       <SongCard
         key={song.id}
         song={song}
-        onPlay={onSongPlay}
+        onPlay={(song) => onSongPlay(song, searchContext())}
         formatNumber={formatNumber}
         onAddToPlaylist={onAddToPlaylist}
         onAddToQueue={onAddToQueue}
-        cachedImageUrl={imageUrls[song.img_id]}
+        onPlayNext={onPlayNext}
       />
     ))}
   </div>
-)}
 
 
-            {hasMoreSongs && searchSubmitted && !isLoadingImages && (
+            {hasMoreSongs && searchSubmitted && (
               <div className="flex justify-center mt-6">
                 <button
                   onClick={() => setDisplayCount(prev => prev + 10)}
@@ -1,17 +1,32 @@
 import React from 'react';
-import { User, Heart, List, LogOut, ChevronRight, Moon, Sun, Bell, Download } from 'lucide-react';
+import { User, Heart, List, LogOut, ChevronRight, Moon, Sun, Bell, Download, Blend, Wand2, Gauge, Timer, History } from 'lucide-react';
 import { useTheme } from '@/components/ThemeContext';
 import { useAuth } from '@/hooks/useAuth';
+import { MAX_CROSSFADE_SECONDS, LONG_TRACK_OPTIONS, PlaybackSettings } from '@/hooks/usePlaybackSettings';
+import { NormalizationMode } from '@/lib/normalization';
 
 interface SettingsPageProps {
   onPlaylistsClick: () => void;
   onLikedClick: () => void;
+  playbackSettings: PlaybackSettings;
+  onPlaybackSettingsChange: (changes: Partial<PlaybackSettings>) => void;
 }
 
-const SettingsPage: React.FC<SettingsPageProps> = ({ onPlaylistsClick, onLikedClick }) => {
+const SettingsPage: React.FC<SettingsPageProps> = ({
+  onPlaylistsClick,
+  onLikedClick,
+  playbackSettings,
+  onPlaybackSettingsChange
+}) => {
   const { isDarkMode, toggleTheme } = useTheme();
   const { user, signOut } = useAuth();
 
+  const normalizationModes: { mode: NormalizationMode; label: string }[] = [
+    { mode: 'off', label: 'Off' },
+    { mode: 'track', label: 'Track' },
+    { mode: 'playlist', label: 'Playlist' }
+  ];
+
   return (
     <div className={`min-h-screen ${isDarkMode ? 'bg-gray-900 text-white' : 'bg-gray-50 text-gray-900'}`}>
       {/* Header */}
@@ -85,6 +100,125 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ onPlaylistsClick, onLikedCl
             </div>
           </div>
 
+          {/* Playback */}
+          <div>
+            <h2 className={`text-lg font-semibold mb-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Playback</h2>
+            <div className="space-y-2">
+              <div className={`p-4 ${isDarkMode ? 'bg-gray-800' : 'bg-white border border-gray-200'} rounded-lg`}>
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center">
+                    <Blend className="mr-3 text-purple-400" size={20} />
+                    <span>Crossfade</span>
+                  </div>
+                  <span className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+                    {playbackSettings.crossfadeSeconds > 0 ? `${playbackSettings.crossfadeSeconds}s` : 'Off'}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_CROSSFADE_SECONDS}
+                  step={1}
+                  value={playbackSettings.crossfadeSeconds}
+                  onChange={(e) => onPlaybackSettingsChange({ crossfadeSeconds: Number(e.target.value) })}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+
+              <button
+                onClick={() => onPlaybackSettingsChange({ smartTransitions: !playbackSettings.smartTransitions })}
+                disabled={playbackSettings.crossfadeSeconds === 0}
+                className={`w-full flex items-center justify-between p-4 ${isDarkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-white hover:bg-gray-50 border border-gray-200'} rounded-lg transition-colors disabled:opacity-50`}
+              >
+                <div className="flex items-center text-left">
+                  <Wand2 className="mr-3 text-blue-400 flex-shrink-0" size={20} />
+                  <div>
+                    <span>Smart transitions</span>
+                    <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                      No crossfade between songs that follow each other in a playlist
+                    </p>
+                  </div>
+                </div>
+                <div className={`w-12 h-6 flex-shrink-0 ${playbackSettings.smartTransitions ? 'bg-purple-500' : 'bg-gray-300'} rounded-full relative transition-colors`}>
+                  <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${playbackSettings.smartTransitions ? 'right-1' : 'left-1'}`}></div>
+                </div>
+              </button>
+
+              <div className={`p-4 ${isDarkMode ? 'bg-gray-800' : 'bg-white border border-gray-200'} rounded-lg`}>
+                <div className="flex items-center mb-1">
+                  <Gauge className="mr-3 text-green-400" size={20} />
+                  <span>Normalize volume</span>
+                </div>
+                <p className={`text-xs mb-3 ml-8 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                  {playbackSettings.normalization === 'playlist'
+                    ? 'One level for a whole playlist, keeping quiet and loud songs apart'
+                    : 'Play every song at the same loudness'}
+                </p>
+                <div className={`flex rounded-lg p-1 ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                  {normalizationModes.map(({ mode, label }) => (
+                    <button
+                      key={mode}
+                      onClick={() => onPlaybackSettingsChange({ normalization: mode })}
+                      className={`flex-1 py-1.5 text-sm rounded-md transition-colors ${
+                        playbackSettings.normalization === mode
+                          ? 'bg-purple-500 text-white'
+                          : isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className={`flex items-center justify-between p-4 ${isDarkMode ? 'bg-gray-800' : 'bg-white border border-gray-200'} rounded-lg`}>
+                <div className="flex items-center">
+                  <Timer className="mr-3 text-orange-400 flex-shrink-0" size={20} />
+                  <div>
+                    <span>Remember speed per song</span>
+                    <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                      For songs longer than
+                    </p>
+                  </div>
+                </div>
+                <select
+                  value={playbackSettings.speedMemoryMinutes}
+                  onChange={(e) => onPlaybackSettingsChange({ speedMemoryMinutes: Number(e.target.value) })}
+                  className={`px-3 py-1.5 rounded-lg text-sm ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-900'} focus:outline-none focus:ring-2 focus:ring-purple-500`}
+                >
+                  {LONG_TRACK_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? 'Off' : `${minutes} min`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className={`flex items-center justify-between p-4 ${isDarkMode ? 'bg-gray-800' : 'bg-white border border-gray-200'} rounded-lg`}>
+                <div className="flex items-center">
+                  <History className="mr-3 text-teal-400 flex-shrink-0" size={20} />
+                  <div>
+                    <span>Resume where you left off</span>
+                    <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                      For songs longer than
+                    </p>
+                  </div>
+                </div>
+                <select
+                  value={playbackSettings.resumeMinutes}
+                  onChange={(e) => onPlaybackSettingsChange({ resumeMinutes: Number(e.target.value) })}
+                  className={`px-3 py-1.5 rounded-lg text-sm ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-900'} focus:outline-none focus:ring-2 focus:ring-purple-500`}
+                >
+                  {LONG_TRACK_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? 'Off' : `${minutes} min`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
           {/* Preferences */}
           <div>
             <h2 className={`text-lg font-semibold mb-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Preferences</h2>
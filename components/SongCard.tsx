@@ -1,7 +1,8 @@
 import React from 'react';
-import { Play, Heart, Eye, MoreHorizontal, Plus, X, Clock } from 'lucide-react';
+import { Play, Heart, Eye, MoreHorizontal, Plus, X, Clock, ListStart } from 'lucide-react';
 import { Song } from '@/types';
 import { useTheme } from '@/components/ThemeContext';
+import { songArtwork } from '@/lib/artwork';
 
 interface SongCardProps {
   song: Song;
@@ -9,9 +10,9 @@ interface SongCardProps {
   formatNumber: (num: number) => string;
   onAddToPlaylist?: (song: Song) => void;
   onAddToQueue?: (song: Song) => void;
+  onPlayNext?: (song: Song) => void;
   showRemoveButton?: boolean;
   onRemove?: () => void;
-  cachedImageUrl: string;
 }
 
 const SongCard: React.FC<SongCardProps> = ({ 
@@ -20,9 +21,9 @@ const SongCard: React.FC<SongCardProps> = ({
   formatNumber, 
   onAddToPlaylist,
   onAddToQueue,
+  onPlayNext,
   showRemoveButton = false,
-  onRemove,
-  cachedImageUrl
+  onRemove
 }) => {
   const { isDarkMode } = useTheme();
   const [showMenu, setShowMenu] = React.useState(false);
@@ -47,7 +48,7 @@ const SongCard: React.FC<SongCardProps> = ({
     >
       <div className="relative mr-3">
         <img
-          src={cachedImageUrl}
+          {...songArtwork(song, 48)}
           alt={song.name}
           className="w-12 h-12 rounded-lg object-cover"
         />
@@ -99,6 +100,20 @@ const SongCard: React.FC<SongCardProps> = ({
           
           {showMenu && (
             <div className={`absolute right-0 top-8 ${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg shadow-lg py-2 w-48 z-20`}>
+              {onPlayNext && (
+                <button
+                  onClick={(e) => {
+                    handleButtonClick(e, () => {
+                      onPlayNext(song);
+                      setShowMenu(false);
+                    });
+                  }}
+                  className={`w-full text-left px-4 py-2 ${isDarkMode ? 'hover:bg-gray-700 text-white' : 'hover:bg-gray-100 text-gray-900'} flex items-center transition-colors`}
+                >
+                  <ListStart size={16} className="mr-3" />
+                  Play Next
+                </button>
+              )}
               {onAddToQueue && (
                 <button
                   onClick={(e) => {
@@ -2,15 +2,15 @@ import React from 'react';
 import { Play, Heart, Eye } from 'lucide-react';
 import { Song } from '@/types';
 import { useTheme } from '@/components/ThemeContext';
+import { songArtwork } from '@/lib/artwork';
 
 interface TrendingSongProps {
   song: Song;
   onPlay: (song: Song) => void;
   formatNumber: (num: number) => string;
-  cachedImageUrl: string;
 }
 
-const TrendingSong: React.FC<TrendingSongProps> = ({ song, onPlay, formatNumber,cachedImageUrl }) => {
+const TrendingSong: React.FC<TrendingSongProps> = ({ song, onPlay, formatNumber }) => {
   const { isDarkMode } = useTheme();
 
   const handleClick = () => {
@@ -21,7 +21,7 @@ const TrendingSong: React.FC<TrendingSongProps> = ({ song, onPlay, formatNumber,
     <div className="flex-shrink-0 w-40 group cursor-pointer" onClick={handleClick}>
       <div className="relative mb-2">
         <img
-         src={cachedImageUrl}
+          {...songArtwork(song, 160)}
           alt={song.name}
           className="w-full h-40 rounded-lg object-cover"
         />
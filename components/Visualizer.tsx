@@ -0,0 +1,71 @@
+import React, { useEffect, useRef } from 'react';
+import { getAudioGraph } from '@/lib/audioGraph';
+import { drawFrame, usesTimeDomain, VisualizerStyle } from '@/lib/visualizer';
+
+interface VisualizerProps {
+  style: VisualizerStyle;
+  isPlaying: boolean;
+  className?: string;
+}
+
+const COLOR = 'rgba(168, 85, 247, 0.6)'; // purple-500
+
+// Canvas animated from the audio graph's analyser. It only draws while a song
+// is playing and it is mounted, so a minimized player costs nothing.
+const Visualizer: React.FC<VisualizerProps> = ({ style, isPlaying, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Keep the backing store at the canvas' real size so lines stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resize = () => {
+      const scale = window.devicePixelRatio || 1;
+      canvas.width = canvas.clientWidth * scale;
+      canvas.height = canvas.clientHeight * scale;
+    };
+    resize();
+
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || style === 'off') return;
+
+    if (!isPlaying) {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    const graph = getAudioGraph();
+    const analyser = graph.analyser();
+    // Routing the decks through the graph mid-song needs a running context
+    graph.resume();
+
+    const timeDomain = usesTimeDomain(style);
+    const data = new Uint8Array(timeDomain ? analyser.fftSize : analyser.frequencyBinCount);
+    let frameId: number;
+
+    const draw = () => {
+      if (timeDomain) {
+        analyser.getByteTimeDomainData(data);
+      } else {
+        analyser.getByteFrequencyData(data);
+      }
+      drawFrame(style, { ctx, width: canvas.width, height: canvas.height, data, color: COLOR });
+      frameId = requestAnimationFrame(draw);
+    };
+    frameId = requestAnimationFrame(draw);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [style, isPlaying]);
+
+  return <canvas ref={canvasRef} className={className} aria-hidden="true" />;
+};
+
+export default Visualizer;
@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTheme } from '@/components/ThemeContext';
+
+interface WaveformSeekBarProps {
+  fileId: number;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  formatTime: (seconds: number) => string;
+  // A–B loop to shade; `end` is null while only A is set
+  loop?: { start: number; end: number | null } | null;
+  // Bookmark positions, drawn as ticks
+  markers?: number[];
+}
+
+// Drawn while the peaks load, or if they can't be computed
+const PLACEHOLDER_PEAK = 15;
+// Quiet passages still get a visible bar
+const MIN_BAR_HEIGHT = 6;
+// Arrow keys move by this many seconds, or KEY_STEP_LONG_S with Shift, like
+// the global seek shortcuts
+const KEY_STEP_S = 5;
+const KEY_STEP_LONG_S = 30;
+
+// Peaks don't change, so each song's are fetched once per session
+const peaksCache = new Map<number, number[]>();
+
+async function fetchPeaks(fileId: number): Promise<number[]> {
+  const cached = peaksCache.get(fileId);
+  if (cached) return cached;
+
+  const response = await fetch(`/api/waveform?fileid=${fileId}`);
+  if (!response.ok) throw new Error(`Waveform request failed with ${response.status}`);
+  const { peaks } = await response.json();
+  peaksCache.set(fileId, peaks);
+  return peaks;
+}
+
+// Seek bar drawn from the song's waveform: the played part is highlighted,
+// and dragging (or hovering with a mouse) previews the time under the pointer
+// before seeking on release. With focus, arrow keys, Home and End seek.
+const WaveformSeekBar: React.FC<WaveformSeekBarProps> = ({
+  fileId,
+  currentTime,
+  duration,
+  onSeek,
+  formatTime,
+  loop,
+  markers = []
+}) => {
+  const { isDarkMode } = useTheme();
+  const [peaks, setPeaks] = useState<number[] | null>(() => peaksCache.get(fileId) ?? null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPeaks(peaksCache.get(fileId) ?? null);
+    fetchPeaks(fileId)
+      .then(result => { if (!cancelled) setPeaks(result); })
+      .catch(error => console.error('❌ Error loading waveform:', error));
+    return () => { cancelled = true; };
+  }, [fileId]);
+
+  const timeAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width || !duration) return 0;
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!duration) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsScrubbing(true);
+    setHoverTime(timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (isScrubbing || e.pointerType === 'mouse') setHoverTime(timeAt(e.clientX));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!isScrubbing) return;
+    setIsScrubbing(false);
+    onSeek(timeAt(e.clientX));
+    if (e.pointerType !== 'mouse') setHoverTime(null);
+  };
+
+  const handlePointerCancel = () => {
+    setIsScrubbing(false);
+    setHoverTime(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!duration || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const step = e.shiftKey ? KEY_STEP_LONG_S : KEY_STEP_S;
+    const targets: Record<string, number> = {
+      ArrowLeft: currentTime - step,
+      ArrowDown: currentTime - step,
+      ArrowRight: currentTime + step,
+      ArrowUp: currentTime + step,
+      Home: 0,
+      End: duration,
+    };
+    const target = targets[e.key];
+    if (target === undefined) return;
+
+    // Kept from the global shortcuts, which would seek a second time (or
+    // change the volume for up and down)
+    e.preventDefault();
+    e.stopPropagation();
+    onSeek(Math.min(duration, Math.max(0, target)));
+  };
+
+  const percentOf = (time: number) => (duration > 0 ? Math.min(100, (time / duration) * 100) : 0);
+
+  const shownTime = isScrubbing && hoverTime !== null ? hoverTime : currentTime;
+  const progress = percentOf(shownTime);
+  const bars = peaks ?? new Array(100).fill(PLACEHOLDER_PEAK);
+
+  const renderBars = (className: string) => (
+    <div className="absolute inset-0 flex items-center gap-px">
+      {bars.map((peak, i) => (
+        <div
+          key={i}
+          className={`flex-1 rounded-full ${className}`}
+          style={{ height: `${Math.max(MIN_BAR_HEIGHT, peak)}%` }}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div
+      ref={barRef}
+      role="slider"
+      tabIndex={0}
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(shownTime)}
+      aria-valuetext={`${formatTime(shownTime)} of ${formatTime(duration)}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      onPointerLeave={() => !isScrubbing && setHoverTime(null)}
+      onKeyDown={handleKeyDown}
+      className="relative h-12 cursor-pointer select-none touch-none rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500"
+    >
+      {renderBars(`${isDarkMode ? 'bg-gray-600' : 'bg-gray-300'} ${peaks ? '' : 'animate-pulse'}`)}
+      {/* The played part: the same bars in the accent colour, clipped at the playhead */}
+      <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - progress}% 0 0)` }}>
+        {renderBars('bg-purple-500')}
+      </div>
+
+      {loop && duration > 0 && (
+        <>
+          {loop.end !== null && (
+            <div
+              className="absolute top-0 bottom-0 bg-purple-500/15 pointer-events-none"
+              style={{ left: `${percentOf(loop.start)}%`, width: `${percentOf(loop.end) - percentOf(loop.start)}%` }}
+            />
+          )}
+          {[loop.start, loop.end].map((time, i) => time !== null && (
+            <div
+              key={i}
+              className="absolute top-0 bottom-0 w-0.5 bg-purple-400 pointer-events-none"
+              style={{ left: `${percentOf(time)}%` }}
+            >
+              <span className="absolute -bottom-4 -translate-x-1/2 text-[10px] font-semibold text-purple-400">
+                {i === 0 ? 'A' : 'B'}
+              </span>
+            </div>
+          ))}
+        </>
+      )}
+
+      {duration > 0 && markers.map((time, i) => (
+        <div
+          key={i}
+          className="absolute -top-1 w-1.5 h-1.5 -translate-x-1/2 rounded-full bg-yellow-400 pointer-events-none"
+          style={{ left: `${percentOf(time)}%` }}
+        />
+      ))}
+
+      {hoverTime !== null && duration > 0 && (
+        <>
+          <div
+            className={`absolute top-0 bottom-0 w-px ${isDarkMode ? 'bg-white' : 'bg-gray-900'}`}
+            style={{ left: `${percentOf(hoverTime)}%` }}
+          />
+          <div
+            className={`absolute -top-8 -translate-x-1/2 px-2 py-1 rounded text-xs font-mono whitespace-nowrap ${isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-900 text-white'}`}
+            style={{ left: `${Math.min(95, Math.max(5, percentOf(hoverTime)))}%` }}
+          >
+            {formatTime(hoverTime)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WaveformSeekBar;
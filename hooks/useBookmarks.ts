@@ -0,0 +1,40 @@
+import { Bookmark } from '@/types';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface BookmarkStore {
+  load: (fileId: number) => Promise<Bookmark[]>;
+  add: (fileId: number, position: number, name: string) => Promise<Bookmark>;
+  remove: (bookmarkId: string) => Promise<void>;
+}
+
+// The bookmarks of the song playing, reloaded whenever it changes
+export function useBookmarks(fileId: number | null, store: BookmarkStore | undefined) {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const storeRef = useRef(store);
+  storeRef.current = store;
+
+  useEffect(() => {
+    setBookmarks([]);
+    if (fileId === null || !storeRef.current) return;
+
+    let cancelled = false;
+    storeRef.current.load(fileId).then(result => {
+      if (!cancelled) setBookmarks(result);
+    });
+    return () => { cancelled = true; };
+  }, [fileId]);
+
+  const addBookmark = useCallback(async (position: number, name: string) => {
+    if (fileId === null || !storeRef.current) return;
+    const bookmark = await storeRef.current.add(fileId, position, name);
+    setBookmarks(prev => [...prev, bookmark].sort((a, b) => a.position - b.position));
+  }, [fileId]);
+
+  const deleteBookmark = useCallback(async (bookmarkId: string) => {
+    if (!storeRef.current) return;
+    await storeRef.current.remove(bookmarkId);
+    setBookmarks(prev => prev.filter(bookmark => bookmark.id !== bookmarkId));
+  }, []);
+
+  return { bookmarks, addBookmark, deleteBookmark };
+}
@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+
+// Arrow keys seek by this many seconds, or SEEK_STEP_LONG_S with Shift
+const SEEK_STEP_S = 5;
+const SEEK_STEP_LONG_S = 30;
+const VOLUME_STEP = 0.1;
+
+export interface KeyboardShortcuts {
+  togglePlay: () => void;
+  seekBy: (seconds: number) => void;
+  changeVolume: (delta: number) => void;
+  next: () => void;
+  previous: () => void;
+  toggleLike: () => void;
+  showQueue: () => void;
+  focusSearch: () => void;
+  openCommandPalette: () => void;
+}
+
+// Keys typed into a field belong to the field
+function isTyping(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// Global shortcuts: Space play/pause, ←/→ seek, ↑/↓ volume, N/P next and
+// previous, L like, Q queue, / search, Ctrl+K (⌘K) command palette. Only
+// Ctrl+K works while a field has focus; nothing does while `enabled` is false
+// (a modal is open).
+export function useKeyboardShortcuts(shortcuts: KeyboardShortcuts, enabled: boolean) {
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const actions = shortcutsRef.current;
+
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        actions.openCommandPalette();
+        return;
+      }
+
+      if (event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return;
+
+      const seekStep = event.shiftKey ? SEEK_STEP_LONG_S : SEEK_STEP_S;
+      const handlers: Record<string, () => void> = {
+        ' ': actions.togglePlay,
+        ArrowLeft: () => actions.seekBy(-seekStep),
+        ArrowRight: () => actions.seekBy(seekStep),
+        ArrowUp: () => actions.changeVolume(VOLUME_STEP),
+        ArrowDown: () => actions.changeVolume(-VOLUME_STEP),
+        n: actions.next,
+        p: actions.previous,
+        l: actions.toggleLike,
+        q: actions.showQueue,
+        '/': actions.focusSearch,
+      };
+
+      const handler = handlers[event.key.length === 1 ? event.key.toLowerCase() : event.key];
+      if (!handler) return;
+
+      // Space would also click the focused button, arrows scroll the page
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
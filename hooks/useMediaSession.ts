@@ -0,0 +1,92 @@
+import { Player } from '@/hooks/usePlayer';
+import { mediaSessionArtwork } from '@/lib/artwork';
+import { describePlaybackContext } from '@/lib/playbackContext';
+import { useEffect, useRef } from 'react';
+
+// How far the seek backward/forward keys jump when the OS doesn't say
+const DEFAULT_SEEK_OFFSET_S = 10;
+
+// Mirrors the player to navigator.mediaSession so lock screens, notification
+// shades and hardware media keys show the song and control playback
+export function useMediaSession(player: Player) {
+  const { currentSong, currentTime, duration } = player.state;
+  const playerRef = useRef(player);
+  playerRef.current = player;
+
+  const supported = typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+  useEffect(() => {
+    if (!supported) return;
+
+    const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => playerRef.current.play()],
+      ['pause', () => playerRef.current.pause()],
+      ['stop', () => playerRef.current.pause()],
+      ['nexttrack', () => playerRef.current.next()],
+      ['previoustrack', () => playerRef.current.previous()],
+      ['seekto', details => {
+        if (details.seekTime !== undefined) playerRef.current.seek(details.seekTime);
+      }],
+      ['seekbackward', details => {
+        const { currentTime } = playerRef.current.state;
+        playerRef.current.seek(Math.max(0, currentTime - (details.seekOffset ?? DEFAULT_SEEK_OFFSET_S)));
+      }],
+      ['seekforward', details => {
+        const { currentTime, duration } = playerRef.current.state;
+        playerRef.current.seek(Math.min(duration, currentTime + (details.seekOffset ?? DEFAULT_SEEK_OFFSET_S)));
+      }],
+    ];
+
+    actions.forEach(([action, handler]) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Not every browser knows every action
+      }
+    });
+
+    return () => {
+      actions.forEach(([action]) => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {}
+      });
+    };
+  }, [supported]);
+
+  useEffect(() => {
+    if (!supported) return;
+
+    if (!currentSong) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: currentSong.name,
+      artist: currentSong.artist,
+      album: describePlaybackContext(player.context).name,
+      artwork: mediaSessionArtwork(currentSong),
+    });
+  }, [supported, currentSong?.file_id, currentSong?.img_id, player.context]);
+
+  useEffect(() => {
+    if (!supported) return;
+    navigator.mediaSession.playbackState = !currentSong ? 'none' : player.isPlaying ? 'playing' : 'paused';
+  }, [supported, currentSong, player.isPlaying]);
+
+  // Follows the time updates the audio element reports
+  useEffect(() => {
+    if (!supported || !navigator.mediaSession.setPositionState) return;
+    if (!currentSong || !(duration > 0)) return;
+
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        playbackRate: player.playbackRate,
+        position: Math.min(currentTime, duration),
+      });
+    } catch (error) {
+      console.warn('Could not update media session position:', error);
+    }
+  }, [supported, currentSong, currentTime, duration, player.playbackRate]);
+}
@@ -0,0 +1,161 @@
+import { PlayerState } from '@/lib/playerMachine';
+import { Song } from '@/types';
+import { useEffect, useRef } from 'react';
+
+// Waits before each reload of a song that failed; once they're used up the
+// song is skipped
+const RETRY_DELAYS_MS = [1_000, 3_000, 8_000];
+
+// A song that should be playing but hasn't got past loading or buffering in
+// this long counts as failed (the browser's own `stalled` event fires after
+// a few seconds without data, often while plenty is still buffered)
+const STALL_TIMEOUT_MS = 15_000;
+
+// Playing this far past the retry point means the song recovered
+const RECOVERED_AFTER_S = 5;
+
+// Songs skipped in a row before giving up; by then the problem isn't the song
+const MAX_SKIPS_IN_A_ROW = 3;
+
+export type PlaybackFailure =
+  | { type: 'retrying'; song: Song; message: string; attempt: number }
+  | { type: 'offline'; song: Song }
+  | { type: 'skipped'; song: Song; message: string }
+  | { type: 'stopped'; song: Song; message: string }
+  // Playing again after a retry, or the user paused or moved on meanwhile
+  | { type: 'resolved'; song: Song };
+
+export interface RecoveryActions {
+  // Reload the current song and continue at `time`
+  retry: (time: number) => void;
+  skip: () => void;
+  pause: () => void;
+}
+
+interface Attempts {
+  count: number;
+  // Where the last retry picked up
+  retriedAt: number;
+}
+
+// Reloads the current song when it errors or stalls, picking up where it was,
+// and moves on to the next song when it keeps failing. `onFailure` hears
+// about each step, so the user can be told what happened.
+export function usePlaybackRecovery(
+  state: PlayerState,
+  onFailure: ((failure: PlaybackFailure) => void) | undefined,
+  actions: RecoveryActions
+) {
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const onFailureRef = useRef(onFailure);
+  onFailureRef.current = onFailure;
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  const fileId = state.currentSong?.file_id ?? null;
+  const attemptsRef = useRef<Attempts>({ count: 0, retriedAt: 0 });
+  // Last position the song actually played at
+  const lastGoodTimeRef = useRef(0);
+  const skipsInARowRef = useRef(0);
+  // Pending retry timer, or the listener waiting for the network to return
+  const pendingRef = useRef<(() => void) | null>(null);
+  // Song being retried, until it plays again or is given up on
+  const recoveringRef = useRef<Song | null>(null);
+
+  const resolve = () => {
+    if (recoveringRef.current) onFailureRef.current?.({ type: 'resolved', song: recoveringRef.current });
+    recoveringRef.current = null;
+  };
+
+  const cancelPending = () => {
+    pendingRef.current?.();
+    pendingRef.current = null;
+    resolve();
+  };
+
+  const fail = (message: string) => {
+    const song = stateRef.current.currentSong;
+    if (!song || pendingRef.current) return;
+
+    const retry = () => {
+      pendingRef.current = null;
+      const current = stateRef.current;
+      // The user paused or moved on in the meantime
+      if (!current.playWhenReady || current.currentSong?.file_id !== song.file_id) return;
+      attemptsRef.current.retriedAt = lastGoodTimeRef.current;
+      actionsRef.current.retry(lastGoodTimeRef.current);
+    };
+
+    // A dropped connection isn't the song's fault: wait for it, then carry on
+    if (!navigator.onLine) {
+      console.warn('📡 Offline, waiting to resume', song.name);
+      recoveringRef.current = song;
+      onFailureRef.current?.({ type: 'offline', song });
+      window.addEventListener('online', retry, { once: true });
+      pendingRef.current = () => window.removeEventListener('online', retry);
+      return;
+    }
+
+    const attempts = attemptsRef.current;
+    if (attempts.count < RETRY_DELAYS_MS.length) {
+      const delay = RETRY_DELAYS_MS[attempts.count++];
+      console.warn(`🔁 Retrying ${song.name} in ${delay}ms (attempt ${attempts.count}): ${message}`);
+      recoveringRef.current = song;
+      onFailureRef.current?.({ type: 'retrying', song, message, attempt: attempts.count });
+      const timer = setTimeout(retry, delay);
+      pendingRef.current = () => clearTimeout(timer);
+      return;
+    }
+
+    recoveringRef.current = null;
+    skipsInARowRef.current++;
+    if (skipsInARowRef.current >= MAX_SKIPS_IN_A_ROW) {
+      console.error(`⛔ ${skipsInARowRef.current} songs failed in a row, stopping`);
+      onFailureRef.current?.({ type: 'stopped', song, message });
+      actionsRef.current.pause();
+      return;
+    }
+    console.error(`⏭️ Skipping ${song.name} after ${attempts.count} retries: ${message}`);
+    onFailureRef.current?.({ type: 'skipped', song, message });
+    actionsRef.current.skip();
+  };
+
+  // A new song starts with a clean slate
+  useEffect(() => {
+    cancelPending();
+    attemptsRef.current = { count: 0, retriedAt: 0 };
+    lastGoodTimeRef.current = 0;
+  }, [fileId]);
+
+  useEffect(() => {
+    if (state.status !== 'playing') return;
+    lastGoodTimeRef.current = state.currentTime;
+
+    const attempts = attemptsRef.current;
+    if (state.currentTime - attempts.retriedAt >= RECOVERED_AFTER_S) {
+      attempts.count = 0;
+      skipsInARowRef.current = 0;
+      resolve();
+    }
+  }, [state.currentTime, state.status]);
+
+  useEffect(() => {
+    if (state.status === 'error' && state.playWhenReady) {
+      fail(state.error ?? 'Playback failed');
+    }
+  }, [state.status, state.error]);
+
+  useEffect(() => {
+    if (!state.playWhenReady || (state.status !== 'loading' && state.status !== 'buffering')) return;
+    const timer = setTimeout(() => fail('The stream stalled'), STALL_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [state.status, state.playWhenReady, fileId]);
+
+  // Pausing calls off a pending retry (pressing play again reloads anyway)
+  useEffect(() => {
+    if (!state.playWhenReady) cancelPending();
+  }, [state.playWhenReady]);
+
+  useEffect(() => cancelPending, []);
+}
@@ -0,0 +1,84 @@
+import { FLAT_GAINS } from '@/lib/equalizer';
+import { NormalizationMode } from '@/lib/normalization';
+import { VisualizerStyle } from '@/lib/visualizer';
+import { useCallback, useEffect, useState } from 'react';
+
+export interface PlaybackSettings {
+  // Seconds the end of a song overlaps the start of the next; 0 is off
+  crossfadeSeconds: number;
+  // Skip the crossfade between songs that follow each other in a playlist
+  smartTransitions: boolean;
+  normalization: NormalizationMode;
+  equalizer: {
+    enabled: boolean;
+    // Preset the gains came from; null once a band was moved by hand
+    presetId: string | null;
+    gains: number[];
+  };
+  // Songs at least this long remember their own playback speed; 0 is off
+  speedMemoryMinutes: number;
+  // Songs at least this long resume where they were left; 0 is off (the
+  // last played song still does)
+  resumeMinutes: number;
+  visualizer: VisualizerStyle;
+}
+
+export const MAX_CROSSFADE_SECONDS = 12;
+
+// Choices, in minutes, for the long track thresholds below
+export const LONG_TRACK_OPTIONS = [0, 10, 20, 30, 60];
+
+const STORAGE_KEY = 'playbackSettings';
+// file_id -> speed of long songs played at anything but 1x
+const SONG_SPEEDS_KEY = 'songSpeeds';
+
+const defaultSettings: PlaybackSettings = {
+  crossfadeSeconds: 0,
+  smartTransitions: true,
+  normalization: 'track',
+  equalizer: { enabled: false, presetId: 'flat', gains: FLAT_GAINS },
+  speedMemoryMinutes: 20,
+  resumeMinutes: 10,
+  visualizer: 'off',
+};
+
+// Playback preferences, kept in localStorage so they apply on this device
+// before the user's data has loaded
+export function usePlaybackSettings() {
+  const [settings, setSettings] = useState<PlaybackSettings>(defaultSettings);
+  const [songSpeeds, setSongSpeeds] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) setSettings({ ...defaultSettings, ...JSON.parse(saved) });
+      const speeds = localStorage.getItem(SONG_SPEEDS_KEY);
+      if (speeds) setSongSpeeds(JSON.parse(speeds));
+    } catch (error) {
+      console.error('❌ Error reading playback settings:', error);
+    }
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<PlaybackSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const rememberSongSpeed = useCallback((fileId: number, rate: number) => {
+    setSongSpeeds(prev => {
+      const next = { ...prev };
+      if (rate === 1) {
+        delete next[fileId];
+      } else {
+        next[fileId] = rate;
+      }
+      localStorage.setItem(SONG_SPEEDS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings, songSpeeds, rememberSongSpeed };
+}
@@ -0,0 +1,197 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render } from '@testing-library/react';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlayerProvider } from '@/components/PlayerContext';
+import { Player, usePlayer, UsePlayerOptions } from '@/hooks/usePlayer';
+import { PlaybackContext, Song } from '@/types';
+
+vi.mock('@/lib/audioGraph', () => ({
+  getAudioGraph: () => ({ resume: () => {}, register: () => {}, setEqualizer: () => {}, setGain: () => {} }),
+}));
+
+const song = (fileId: number): Song => ({
+  file_id: fileId,
+  img_id: fileId,
+  name: `Song ${fileId}`,
+  artist: 'Artist',
+  language: 'en',
+  tags: [],
+  views: 0,
+  likes: 0,
+  id: String(fileId),
+  image: '',
+  isLiked: false,
+});
+
+const liked: PlaybackContext = { type: 'liked' };
+
+// jsdom doesn't play media: each element keeps its own paused/readyState and
+// fires the events a browser would
+interface FakeMedia {
+  fakePaused?: boolean;
+  fakeReadyState?: number;
+}
+
+const mediaProps: PropertyDescriptorMap = {
+  paused: {
+    configurable: true,
+    get(this: FakeMedia) { return this.fakePaused ?? true; },
+  },
+  readyState: {
+    configurable: true,
+    get(this: FakeMedia) { return this.fakeReadyState ?? 0; },
+  },
+  duration: {
+    configurable: true,
+    get() { return 180; },
+  },
+  play: {
+    configurable: true,
+    value(this: HTMLMediaElement & FakeMedia) {
+      if (this.fakePaused === false) return Promise.resolve();
+      this.fakePaused = false;
+      this.dispatchEvent(new Event('play'));
+      return Promise.resolve();
+    },
+  },
+  pause: {
+    configurable: true,
+    value(this: HTMLMediaElement & FakeMedia) {
+      if (this.fakePaused !== false) return;
+      this.fakePaused = true;
+      this.dispatchEvent(new Event('pause'));
+    },
+  },
+  load: {
+    configurable: true,
+    value() {},
+  },
+};
+
+const options: UsePlayerOptions = {
+  userId: null,
+  lastPlayedSong: null,
+  getPersonalizedSongs: async () => [],
+  getSmartPersonalizedSongs: async () => [],
+  recordListeningHistory: () => {},
+  stopCurrentSongTracking: async () => {},
+};
+
+function renderPlayer(playerOptions: UsePlayerOptions = options) {
+  const result: { current: Player | null } = { current: null };
+  const Harness: React.FC = () => {
+    const player = usePlayer(playerOptions);
+    result.current = player;
+    return <PlayerProvider player={player}>{null}</PlayerProvider>;
+  };
+  const { container } = render(<Harness />);
+  const decks = Array.from(container.querySelectorAll('audio')) as (HTMLAudioElement & FakeMedia)[];
+  return { player: () => result.current!, decks };
+}
+
+describe('usePlayer deck hand-off', () => {
+  let saved: PropertyDescriptorMap;
+
+  beforeEach(() => {
+    saved = {};
+    for (const name of Object.keys(mediaProps)) {
+      const descriptor = Object.getOwnPropertyDescriptor(HTMLMediaElement.prototype, name);
+      if (descriptor) saved[name] = descriptor;
+    }
+    Object.defineProperties(HTMLMediaElement.prototype, mediaProps);
+  });
+
+  afterEach(() => {
+    cleanup();
+    Object.defineProperties(HTMLMediaElement.prototype, saved);
+  });
+
+  it('keeps playing the buffered deck when a song ends', async () => {
+    const [a, b, c] = [1, 2, 3].map(song);
+    const { player, decks } = renderPlayer();
+
+    await act(async () => {
+      await player().playCollection([a, b, c], liked);
+    });
+    await act(async () => {
+      decks[0].fakeReadyState = HTMLMediaElement.HAVE_METADATA;
+      fireEvent(decks[0], new Event('loadedmetadata'));
+    });
+
+    expect(player().state.status).toBe('playing');
+    expect(decks[0].paused).toBe(false);
+    // The next song is buffering on the standby deck
+    expect(decks[1].getAttribute('src')).toContain('fileid=2');
+
+    decks[1].fakeReadyState = HTMLMediaElement.HAVE_ENOUGH_DATA;
+    await act(async () => {
+      decks[0].fakePaused = true;
+      fireEvent(decks[0], new Event('ended'));
+    });
+
+    expect(player().state.currentSong).toBe(b);
+    expect(player().state.status).toBe('playing');
+    expect(player().state.playWhenReady).toBe(true);
+    expect(decks[1].paused).toBe(false);
+  });
+
+  it('keeps playing the deck a crossfade fades into', async () => {
+    const [a, b, c] = [1, 2, 3].map(song);
+    const { player, decks } = renderPlayer({ ...options, crossfade: { seconds: 5, smartTransitions: false } });
+
+    await act(async () => {
+      await player().playCollection([a, b, c], liked);
+    });
+    await act(async () => {
+      decks[0].fakeReadyState = HTMLMediaElement.HAVE_METADATA;
+      fireEvent(decks[0], new Event('loadedmetadata'));
+    });
+
+    decks[1].fakeReadyState = HTMLMediaElement.HAVE_ENOUGH_DATA;
+    await act(async () => {
+      decks[0].currentTime = 177;
+      fireEvent(decks[0], new Event('timeupdate'));
+    });
+
+    expect(player().state.currentSong).toBe(b);
+    expect(player().state.status).toBe('playing');
+    expect(player().state.playWhenReady).toBe(true);
+    expect(decks[1].paused).toBe(false);
+    // The outgoing deck plays on until the fade completes
+    expect(decks[0].paused).toBe(false);
+  });
+
+  it('times a crossfade by the speed the song plays at', async () => {
+    const [a, b, c] = [1, 2, 3].map(song);
+    const { player, decks } = renderPlayer({ ...options, crossfade: { seconds: 5, smartTransitions: false } });
+
+    await act(async () => {
+      await player().playCollection([a, b, c], liked);
+    });
+    await act(async () => {
+      decks[0].fakeReadyState = HTMLMediaElement.HAVE_METADATA;
+      fireEvent(decks[0], new Event('loadedmetadata'));
+      player().setPlaybackRate(2);
+    });
+
+    decks[1].fakeReadyState = HTMLMediaElement.HAVE_ENOUGH_DATA;
+    // 15 s of the song left take 7.5 s at 2x
+    await act(async () => {
+      decks[0].currentTime = 165;
+      fireEvent(decks[0], new Event('timeupdate'));
+    });
+    expect(player().playbackRate).toBe(2);
+    expect(player().state.currentSong).toBe(a);
+    expect(decks[1].paused).toBe(true);
+
+    // 9 s left take 4.5 s
+    await act(async () => {
+      decks[0].currentTime = 171;
+      fireEvent(decks[0], new Event('timeupdate'));
+    });
+    expect(player().state.currentSong).toBe(b);
+    expect(decks[1].paused).toBe(false);
+    expect(decks[0].paused).toBe(false);
+  });
+});
@@ -0,0 +1,848 @@
+import { QueueItem, useQueue } from '@/hooks/useQueue';
+import { PlaybackFailure, usePlaybackRecovery } from '@/hooks/usePlaybackRecovery';
+import { ResumeOffer, ResumeOptions, useResumePosition } from '@/hooks/useResumePosition';
+import { getAudioGraph } from '@/lib/audioGraph';
+import { NormalizationMode, normalizationGain } from '@/lib/normalization';
+import {
+  initialPlayerState,
+  LoopRange,
+  playerReducer,
+  PlayerAction,
+  PlayerState,
+  RepeatMode,
+  selectIsConsecutive,
+  selectIsPlaying,
+  selectNextInList,
+  selectPlaybackContext,
+  selectPlaybackRate,
+  selectUpcoming,
+  ShuffleMode
+} from '@/lib/playerMachine';
+import { QueueSnapshot, SavedQueue, takeSnapshot } from '@/lib/queueSnapshot';
+import { interleave, shuffle } from '@/lib/shuffle';
+import { PlaybackContext, Song } from '@/types';
+import React, { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+
+// How many recommendations follow the song the user picked
+const RECOMMENDATION_BATCH = 4;
+
+// Smart shuffle plays one recommendation after every this many collection songs
+const SMART_SHUFFLE_EVERY = 3;
+
+const audioUrl = (fileId: number) => `/api/audio-proxy?fileid=${fileId}`;
+
+// Two <audio> elements take turns: the active deck plays the current song
+// while the standby deck buffers the next one, so a transition only has to
+// start an element that is already loaded
+type DeckIndex = 0 | 1;
+
+interface Decks {
+  active: DeckIndex;
+  // file_id loaded by each deck
+  files: [number | null, number | null];
+}
+
+const otherDeck = (deck: DeckIndex): DeckIndex => (deck === 0 ? 1 : 0);
+
+// Puts `fileId` on the active deck, switching decks if the standby one has
+// already buffered it
+function assignDeck(decks: Decks, fileId: number | null): Decks {
+  if (fileId === null) return { active: decks.active, files: [null, null] };
+  if (decks.files[decks.active] === fileId) return decks;
+
+  const standby = otherDeck(decks.active);
+  if (decks.files[standby] === fileId) return { ...decks, active: standby };
+
+  const files: Decks['files'] = [...decks.files];
+  files[decks.active] = fileId;
+  return { ...decks, files };
+}
+
+// Interval between volume steps of a crossfade
+const FADE_STEP_MS = 50;
+
+interface Fade {
+  // Deck fading out, left playing until the fade completes
+  from: HTMLAudioElement;
+  // Song fading in
+  toFileId: number;
+  timer: ReturnType<typeof setInterval>;
+}
+
+export interface AudioDeck {
+  ref: React.RefObject<HTMLAudioElement>;
+  src: string | undefined;
+  handlers: React.AudioHTMLAttributes<HTMLAudioElement>;
+}
+
+export interface UsePlayerOptions {
+  userId: string | null;
+  // Song to load (paused) once the user's data arrives
+  lastPlayedSong: Song | null;
+  getPersonalizedSongs: (userId: string, song: Song, exclude: Set<string>) => Promise<Song[]>;
+  getSmartPersonalizedSongs: (userId: string, listened: Song[], exclude: Set<string>) => Promise<Song[]>;
+  recordListeningHistory: (songId: string, context: PlaybackContext | null) => void;
+  stopCurrentSongTracking: () => Promise<void>;
+  // Called when a song finishes; return true to stop instead of moving on
+  onTrackEnd?: () => boolean;
+  // Overlap the end of a song with the start of the next
+  crossfade?: { seconds: number; smartTransitions: boolean };
+  normalization?: NormalizationMode;
+  // Gain in dB per equalizer band, or null when the equalizer is off
+  equalizer?: number[] | null;
+  // Songs at least `minDuration` seconds long keep their own speed
+  speedMemory?: {
+    minDuration: number;
+    speeds: Record<string, number>;
+    remember: (fileId: number, rate: number) => void;
+  };
+  // Saved positions for the last played song and long tracks
+  resume?: ResumeOptions;
+  // Told about retries and skips after the audio fails or stalls
+  onPlaybackFailure?: (failure: PlaybackFailure) => void;
+  // Queue and list saved by `saveQueue`, restored instead of just
+  // `lastPlayedSong`
+  savedQueue?: SavedQueue | null;
+  saveQueue?: (snapshot: QueueSnapshot) => void;
+}
+
+export interface Player {
+  state: PlayerState;
+  isPlaying: boolean;
+  // Where the current song is playing from ("Playing from …")
+  context: PlaybackContext | null;
+  queue: QueueItem[];
+
+  // Play `song` now and rebuild the personalized list around it
+  playSong: (song: Song, context: PlaybackContext) => Promise<void>;
+  // Play a playlist or liked songs from `startIndex` (a random song when
+  // shuffled and no start is given) in collection or shuffled order
+  playCollection: (songs: Song[], context: PlaybackContext, startIndex?: number) => Promise<void>;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  // Queue first, then the personalized list, then either the start of the
+  // list again (repeat context) or a fresh batch of recommendations
+  next: () => Promise<void>;
+  // Previous song of the personalized list, or the start of the current one
+  previous: () => void;
+  seek: (time: number) => void;
+  setVolume: (volume: number) => void;
+  // Speed of the current song if it's long enough to remember its own,
+  // of every song otherwise
+  setPlaybackRate: (rate: number) => void;
+  setPreservesPitch: (preservesPitch: boolean) => void;
+  playbackRate: number;
+  // Repeat a section of the current song until cleared or the song changes
+  setLoop: (loop: LoopRange | null) => void;
+  // Shuffles what's left of the current list and the queue; `off` puts both
+  // back in their original order from the current song on
+  setShuffleMode: (mode: ShuffleMode) => void;
+  setRepeatMode: (mode: RepeatMode) => void;
+  // Keep the player's copy of a song in sync after it changes (likes)
+  updateSong: (song: Song) => void;
+  // Stop playback and close the player
+  stop: () => Promise<void>;
+
+  // Saved position the current song can pick up from ("Resume from 34:12?")
+  resumeOffer: ResumeOffer | null;
+  acceptResume: () => void;
+  dismissResume: () => void;
+
+  addToQueue: (song: Song) => void;
+  // Queue at the front, to play right after the current song
+  playNext: (song: Song) => void;
+  removeFromQueue: (itemId: string) => void;
+  // Put removed items back at `index` (undo)
+  restoreQueueItems: (items: QueueItem[], index?: number) => void;
+  moveQueueItem: (fromIndex: number, toIndex: number) => void;
+  clearQueue: () => void;
+
+  // Wiring for the two <audio> elements rendered by PlayerProvider
+  decks: AudioDeck[];
+}
+
+export function usePlayer(options: UsePlayerOptions): Player {
+  const [state, dispatch] = useReducer(playerReducer, initialPlayerState);
+  const queue = useQueue();
+  const restoredRef = useRef(false);
+  // The last played song loaded after login, which always offers to resume
+  const restoredFileIdRef = useRef<number | null>(null);
+
+  const deckRefs = [useRef<HTMLAudioElement>(null), useRef<HTMLAudioElement>(null)];
+  const [decks, setDecks] = useState<Decks>({ active: 0, files: [null, null] });
+  // The element currently playing; everything but the deck wiring goes through it
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const decksRef = useRef(decks);
+  decksRef.current = decks;
+  const fadeRef = useRef<Fade | null>(null);
+  const [isCrossfading, setIsCrossfading] = useState(false);
+
+  // Async actions read the latest values through refs so they never act on
+  // the state of the render that created them
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+
+  const send = useCallback((action: PlayerAction) => {
+    // Keep the ref current for code that reads it before the next render
+    stateRef.current = playerReducer(stateRef.current, action);
+    dispatch(action);
+  }, []);
+
+  const notPlayedYet = (songs: Song[], state: PlayerState) =>
+    songs.filter(song =>
+      !state.playedIds.has(song.file_id.toString()) &&
+      !state.personalizedList.some(existing => existing.file_id === song.file_id)
+    );
+
+  // Smart recommendations when the user actually listened to part of this
+  // batch, plain ones based on the current song otherwise
+  const fetchRecommendations = async (state: PlayerState, exclude: Set<string>): Promise<Song[]> => {
+    const { userId, getPersonalizedSongs, getSmartPersonalizedSongs } = optionsRef.current;
+    if (!userId || !state.currentSong) return [];
+
+    if (state.batchListened.length > 0) {
+      console.log('🧠 Using smart recommendations based on listened songs');
+      return getSmartPersonalizedSongs(userId, state.batchListened, exclude);
+    }
+    console.log('🎵 No listened songs in batch, using regular recommendations');
+    return getPersonalizedSongs(userId, state.currentSong, exclude);
+  };
+
+  const loadPersonalizedList = async (song: Song) => {
+    const { userId, getPersonalizedSongs } = optionsRef.current;
+    if (!userId) return;
+
+    try {
+      console.log('🎵 Fetching personalized songs for:', song.name);
+      const recs = await getPersonalizedSongs(userId, song, stateRef.current.playedIds);
+      const list = [song, ...notPlayedYet(recs, stateRef.current).slice(0, RECOMMENDATION_BATCH)];
+      send({ type: 'SET_LIST', songs: list });
+      console.log('✅ New personalized list set:', list.length, 'songs');
+    } catch (error) {
+      console.error('❌ Error fetching personalized songs:', error);
+    }
+  };
+
+  // Reports the song that just started, with where it's playing from
+  const recordStart = (song: Song) => {
+    optionsRef.current.recordListeningHistory(song.id, selectPlaybackContext(stateRef.current));
+  };
+
+  const playSong = useCallback(async (song: Song, context: PlaybackContext) => {
+    if (audioRef.current && stateRef.current.currentSong?.file_id === song.file_id) {
+      audioRef.current.currentTime = 0;
+    }
+    restoredRef.current = true;
+    send({ type: 'PLAY_SONG', song, context, at: Date.now() });
+    recordStart(song);
+    await loadPersonalizedList(song);
+  }, []);
+
+  // Mixes recommendations based on the collection into its shuffled order
+  const addSmartShuffleRecommendations = async () => {
+    const { userId, getSmartPersonalizedSongs } = optionsRef.current;
+    const current = stateRef.current;
+    if (!userId || current.listSource !== 'collection') return;
+
+    try {
+      const exclude = new Set(current.playedIds);
+      current.originalList.forEach(song => exclude.add(song.file_id.toString()));
+      const recs = await getSmartPersonalizedSongs(userId, current.originalList, exclude);
+
+      // Drop the result if shuffle or the collection changed while fetching
+      const latest = stateRef.current;
+      if (latest.shuffleMode !== 'smart' || latest.originalList !== current.originalList) return;
+
+      const upcoming = selectUpcoming(latest);
+      const slots = Math.floor(upcoming.length / SMART_SHUFFLE_EVERY);
+      send({
+        type: 'SET_SHUFFLE',
+        mode: 'smart',
+        upcoming: interleave(upcoming, shuffle(recs).slice(0, slots), SMART_SHUFFLE_EVERY)
+      });
+      console.log('🔀 Smart shuffle added', Math.min(slots, recs.length), 'recommendations');
+    } catch (error) {
+      console.error('❌ Error fetching smart shuffle recommendations:', error);
+    }
+  };
+
+  const playCollection = useCallback(async (songs: Song[], context: PlaybackContext, startIndex?: number) => {
+    if (songs.length === 0) return;
+
+    const { shuffleMode, currentSong } = stateRef.current;
+    const shuffled = shuffleMode !== 'off';
+    const index = startIndex ?? (shuffled ? Math.floor(Math.random() * songs.length) : 0);
+    const song = songs[index];
+
+    if (audioRef.current && currentSong?.file_id === song.file_id) {
+      audioRef.current.currentTime = 0;
+    }
+    restoredRef.current = true;
+    send({
+      type: 'PLAY_COLLECTION',
+      songs,
+      index,
+      context,
+      upcoming: shuffled ? shuffle(songs.filter((_, i) => i !== index)) : undefined,
+      at: Date.now()
+    });
+    recordStart(song);
+
+    if (shuffleMode === 'smart') {
+      await addSmartShuffleRecommendations();
+    }
+  }, []);
+
+  const setShuffleMode = useCallback((mode: ShuffleMode) => {
+    const current = stateRef.current;
+    if (mode === current.shuffleMode) return;
+
+    if (mode === 'off') {
+      send({ type: 'SET_SHUFFLE', mode });
+      queueRef.current.unshuffleQueue();
+      return;
+    }
+
+    if (current.shuffleMode === 'off') {
+      send({ type: 'SET_SHUFFLE', mode, upcoming: shuffle(selectUpcoming(current)) });
+      queueRef.current.shuffleQueue();
+    } else {
+      // Switching between shuffle and smart shuffle keeps the order, minus
+      // any recommendations smart shuffle mixed in
+      const upcoming = selectUpcoming(current).filter(song =>
+        current.originalList.some(original => original.file_id === song.file_id)
+      );
+      send({ type: 'SET_SHUFFLE', mode, upcoming });
+    }
+
+    if (mode === 'smart') {
+      addSmartShuffleRecommendations();
+    }
+  }, []);
+
+  const playIndex = (index: number) => {
+    const song = stateRef.current.personalizedList[index];
+    if (!song) return;
+    send({ type: 'PLAY_INDEX', index, at: Date.now() });
+    recordStart(song);
+  };
+
+  // Repeat context: play the list again from the top, or a new shuffled pass
+  // of the collection that doesn't open with the song that just played
+  const restartList = async (current: PlayerState) => {
+    if (
+      current.listSource === 'collection' &&
+      current.listContext &&
+      current.shuffleMode !== 'off' &&
+      current.originalList.length > 1
+    ) {
+      const choices = current.originalList
+        .map((_, index) => index)
+        .filter(index => current.originalList[index].file_id !== current.currentSong?.file_id);
+      console.log('🔁 Repeating collection in a new shuffled order');
+      await playCollection(current.originalList, current.listContext, shuffle(choices)[0]);
+      return;
+    }
+
+    console.log('🔁 Repeating from the start of the list');
+    playIndex(0);
+  };
+
+  const next = useCallback(async () => {
+    const current = stateRef.current;
+    if (!current.currentSong) return;
+
+    // Queued songs play in between; the list carries on once they're done
+    const queued = queueRef.current.getNextSongFromQueue();
+    if (queued) {
+      if (audioRef.current && current.currentSong.file_id === queued.file_id) {
+        audioRef.current.currentTime = 0;
+      }
+      send({ type: 'PLAY_QUEUED', song: queued, at: Date.now() });
+      recordStart(queued);
+      return;
+    }
+
+    // Top recommendations up while there is still one song left to play;
+    // collections (and lists on repeat) end and are handled below
+    if (
+      current.listSource === 'recommendations' &&
+      current.repeatMode !== 'context' &&
+      current.currentIndex === current.personalizedList.length - 2
+    ) {
+      try {
+        const exclude = new Set(current.playedIds);
+        current.personalizedList.forEach(song => exclude.add(song.file_id.toString()));
+        const recs = notPlayedYet(await fetchRecommendations(current, exclude), stateRef.current);
+        send({ type: 'APPEND_TO_LIST', songs: recs.slice(0, RECOMMENDATION_BATCH + 1) });
+      } catch (error) {
+        console.error('❌ Error fetching smart recommendations:', error);
+      }
+    }
+
+    if (current.currentIndex + 1 < stateRef.current.personalizedList.length) {
+      playIndex(current.currentIndex + 1);
+      return;
+    }
+
+    if (current.repeatMode === 'context') {
+      await restartList(current);
+      return;
+    }
+
+    // End of the list: start over from a fresh batch
+    try {
+      console.log('🧠 Reached end of list, fetching new smart recommendations');
+      const recs = notPlayedYet(await fetchRecommendations(current, current.playedIds), stateRef.current);
+      if (recs.length === 0) {
+        console.warn('⚠️ No more smart recommendations available');
+        return;
+      }
+
+      const [first, ...rest] = recs;
+      send({ type: 'PLAY_SONG', song: first, context: { type: 'recommendations', batch: 'radio' }, at: Date.now() });
+      send({ type: 'SET_LIST', songs: [first, ...rest.slice(0, RECOMMENDATION_BATCH)] });
+      recordStart(first);
+    } catch (error) {
+      console.error('❌ Error fetching new smart recommendations:', error);
+    }
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    const audio = audioRef.current;
+    if (audio && stateRef.current.duration > 0) {
+      audio.currentTime = time;
+    }
+    send({ type: 'SEEK', time });
+  }, []);
+
+  const play = useCallback(() => {
+    if (stateRef.current.status === 'error') {
+      audioRef.current?.load();
+    }
+    send({ type: 'PLAY' });
+  }, []);
+
+  const pause = useCallback(() => send({ type: 'PAUSE' }), []);
+
+  const togglePlay = useCallback(() => {
+    if (selectIsPlaying(stateRef.current)) {
+      pause();
+    } else {
+      play();
+    }
+  }, [play, pause]);
+
+  const previous = useCallback(() => {
+    const current = stateRef.current;
+    if (!current.currentSong) return;
+
+    if (current.fromQueue && current.personalizedList[current.currentIndex]) {
+      // Back to the list song the queue came after
+      playIndex(current.currentIndex);
+    } else if (current.currentIndex > 0) {
+      playIndex(current.currentIndex - 1);
+    } else {
+      seek(0);
+      play();
+    }
+  }, [seek, play]);
+
+  const stop = useCallback(async () => {
+    await optionsRef.current.stopCurrentSongTracking();
+    restoredRef.current = true;
+    send({ type: 'STOP' });
+  }, []);
+
+  // The song next() will play, when it can be buffered ahead of time
+  const peekNext = (): Song | null => {
+    if (stateRef.current.repeatMode === 'track') return null;
+    return queueRef.current.queue[0]?.song ?? selectNextInList(stateRef.current);
+  };
+
+  // Starts the standby deck right away if it holds the next song, instead of
+  // waiting for next() and a render to switch over
+  const startStandby = () => {
+    const { active, files } = decksRef.current;
+    const standby = otherDeck(active);
+    const audio = deckRefs[standby].current;
+    if (!audio || files[standby] === null || files[standby] !== peekNext()?.file_id) return;
+
+    getAudioGraph().resume();
+    audio.play().catch((error: DOMException) => {
+      if (error.name !== 'AbortError') console.error('Gapless start failed:', error);
+    });
+  };
+
+  // Ends a crossfade now: the outgoing deck stops and the incoming one is at
+  // full volume
+  const stopFade = () => {
+    const fade = fadeRef.current;
+    if (!fade) return;
+
+    clearInterval(fade.timer);
+    fadeRef.current = null;
+    fade.from.pause();
+    fade.from.currentTime = 0;
+    deckRefs.forEach(ref => {
+      if (ref.current) ref.current.volume = stateRef.current.volume;
+    });
+    setIsCrossfading(false);
+  };
+
+  // Starts the standby deck under the end of the current song and moves on
+  // to it, fading one out and the other in on an equal-power curve
+  const maybeCrossfade = () => {
+    const { crossfade } = optionsRef.current;
+    const current = stateRef.current;
+    const outgoing = audioRef.current;
+    if (!crossfade || crossfade.seconds <= 0 || !outgoing || fadeRef.current) return;
+    if (current.status !== 'playing' || current.duration <= 0) return;
+
+    // In seconds of wall-clock time, which run faster or slower than the
+    // track's own at speeds other than 1x
+    const remaining = (current.duration - outgoing.currentTime) / selectPlaybackRate(current);
+    if (remaining > crossfade.seconds || remaining <= 0) return;
+
+    const nextSong = peekNext();
+    const { active, files } = decksRef.current;
+    const incoming = deckRefs[otherDeck(active)].current;
+    if (!nextSong || !incoming || files[otherDeck(active)] !== nextSong.file_id) return;
+    if (crossfade.smartTransitions && !queueRef.current.queue.length && selectIsConsecutive(current, nextSong)) return;
+
+    const duration = remaining * 1000;
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const progress = Math.min(1, (Date.now() - startedAt) / duration);
+      const { volume } = stateRef.current;
+      outgoing.volume = volume * Math.cos((progress * Math.PI) / 2);
+      incoming.volume = volume * Math.sin((progress * Math.PI) / 2);
+      if (progress >= 1) stopFade();
+    }, FADE_STEP_MS);
+
+    fadeRef.current = { from: outgoing, toFileId: nextSong.file_id, timer };
+    setIsCrossfading(true);
+    console.log(`🎚️ Crossfading into ${nextSong.name} over ${remaining.toFixed(1)}s`);
+
+    incoming.volume = 0;
+    getAudioGraph().resume();
+    incoming.play().catch((error: DOMException) => {
+      if (error.name !== 'AbortError') console.error('Crossfade start failed:', error);
+    });
+    next();
+  };
+
+  const handleEnded = async () => {
+    // B was set at the very end of the song; an ended element needs play()
+    const { loop } = stateRef.current;
+    if (loop && audioRef.current) {
+      seek(loop.start);
+      audioRef.current.play().catch((error: DOMException) => console.error('Loop restart failed:', error));
+      return;
+    }
+
+    send({ type: 'MEDIA_ENDED', at: Date.now() });
+    if (optionsRef.current.onTrackEnd?.()) return;
+
+    if (stateRef.current.repeatMode === 'track') {
+      if (audioRef.current) audioRef.current.currentTime = 0;
+      send({ type: 'REPLAY', at: Date.now() });
+      return;
+    }
+
+    startStandby();
+    await next();
+  };
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const { pendingSeekTime, currentSong } = stateRef.current;
+    if (pendingSeekTime !== null && isFinite(audio.duration)) {
+      audio.currentTime = pendingSeekTime;
+    }
+    send({ type: 'MEDIA_LOADED', duration: audio.duration });
+
+    // A long song picks up the speed it was last played at
+    const { speedMemory } = optionsRef.current;
+    const remembered = currentSong && speedMemory?.speeds[currentSong.file_id];
+    if (remembered && audio.duration >= speedMemory.minDuration) {
+      send({ type: 'SET_PLAYBACK_RATE', rate: remembered, forSong: true });
+    }
+  };
+
+  const setPlaybackRate = useCallback((rate: number) => {
+    const { currentSong, duration } = stateRef.current;
+    const { speedMemory } = optionsRef.current;
+    const forSong = !!currentSong && !!speedMemory && duration >= speedMemory.minDuration;
+
+    send({ type: 'SET_PLAYBACK_RATE', rate, forSong });
+    if (forSong) speedMemory.remember(currentSong.file_id, rate);
+  }, []);
+
+  // Load the last played song (paused) once, unless something already plays,
+  // along with the queue and list it was playing in
+  useEffect(() => {
+    const { userId, lastPlayedSong, savedQueue } = options;
+    if (!userId || (!lastPlayedSong && !savedQueue) || restoredRef.current) return;
+
+    restoredRef.current = true;
+    if (savedQueue) {
+      const { list, index, listSource, context } = savedQueue;
+      const song = list[index];
+      restoredFileIdRef.current = song.file_id;
+      send({
+        type: 'RESTORE',
+        song,
+        context: context ?? { type: 'recommendations', batch: 'recently-played' },
+        list,
+        index,
+        listSource
+      });
+      queue.restoreQueue(savedQueue.queue);
+      console.log(`♻️ Restored ${song.name} with ${savedQueue.queue.length} queued songs`);
+      // A list of one is a song whose recommendations never arrived
+      if (list.length === 1) loadPersonalizedList(song);
+    } else if (lastPlayedSong) {
+      restoredFileIdRef.current = lastPlayedSong.file_id;
+      send({ type: 'RESTORE', song: lastPlayedSong, context: { type: 'recommendations', batch: 'recently-played' } });
+      loadPersonalizedList(lastPlayedSong);
+    }
+  }, [options.userId, options.lastPlayedSong, options.savedQueue]);
+
+  // Save the queue and list whenever they change
+  useEffect(() => {
+    const snapshot = takeSnapshot(state, queue.queue.map(item => item.song));
+    if (snapshot && options.userId) optionsRef.current.saveQueue?.(snapshot);
+  }, [queue.queue, state.personalizedList, state.currentIndex, state.listContext, state.listSource, options.userId]);
+
+  // Load the current song on a deck, switching to the standby deck when it
+  // already has it
+  useEffect(() => {
+    // Anything but the song being faded into cuts the crossfade short
+    if (fadeRef.current && fadeRef.current.toFileId !== state.currentSong?.file_id) {
+      stopFade();
+    }
+    setDecks(prev => assignDeck(prev, state.currentSong?.file_id ?? null));
+  }, [state.currentSong?.file_id]);
+
+  useEffect(() => {
+    const audio = deckRefs[decks.active].current;
+    const switched = audioRef.current !== null && audioRef.current !== audio;
+    audioRef.current = audio;
+
+    // Silence and rewind the other deck: a song skipped away from, or a
+    // standby that was started for a song next() didn't end up playing
+    const other = deckRefs[otherDeck(decks.active)].current;
+    if (other && other !== fadeRef.current?.from) {
+      other.pause();
+      other.currentTime = 0;
+    }
+
+    // A buffered deck won't fire loadedmetadata again
+    if (switched && audio && audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      handleLoadedMetadata();
+    }
+  }, [decks]);
+
+  // Buffer the next song on the standby deck once the current one has loaded
+  const nextSong = state.duration > 0 ? peekNext() : null;
+  useEffect(() => {
+    // The standby deck is still fading out the previous song
+    if (isCrossfading) return;
+    if (!nextSong || nextSong.file_id === state.currentSong?.file_id) return;
+
+    setDecks(prev => {
+      const standby = otherDeck(prev.active);
+      if (prev.files[standby] === nextSong.file_id) return prev;
+      const files: Decks['files'] = [...prev.files];
+      files[standby] = nextSong.file_id;
+      console.log('⏭️ Preloading next song:', nextSong.name);
+      return { ...prev, files };
+    });
+  }, [nextSong?.file_id, decks.active, isCrossfading]);
+
+  // Make the audio element follow the state machine. The status is read from
+  // stateRef: switching to a buffered deck loads its song (MEDIA_LOADED)
+  // earlier in the same commit.
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const { status, playWhenReady } = stateRef.current;
+
+    if (status === 'playing' && audio.paused) {
+      getAudioGraph().resume();
+      audio.play().catch((error: DOMException) => {
+        if (error.name === 'AbortError') return; // superseded by a new source
+        console.error('Playback error:', error);
+        send(error.name === 'NotAllowedError'
+          ? { type: 'PAUSE' }
+          : { type: 'MEDIA_ERROR', message: error.message });
+      });
+    } else if (status !== 'playing' && status !== 'buffering') {
+      // A crossfade hands over while the next song is loading; pausing or
+      // stopping ends it
+      if (status !== 'loading') stopFade();
+      // A deck started early by a gapless or crossfade hand-off plays before
+      // its song has loaded
+      if (status === 'loading' && playWhenReady) return;
+      if (!audio.paused && audio !== fadeRef.current?.from) audio.pause();
+    }
+  }, [state.status, state.currentSong?.file_id, decks.active]);
+
+  useEffect(() => () => {
+    if (fadeRef.current) clearInterval(fadeRef.current.timer);
+  }, []);
+
+  useEffect(() => {
+    deckRefs.forEach(ref => {
+      if (ref.current) getAudioGraph().register(ref.current);
+    });
+  }, []);
+
+  const equalizer = options.equalizer ?? null;
+  useEffect(() => {
+    getAudioGraph().setEqualizer(equalizer);
+  }, [equalizer?.join(',')]);
+
+  // Normalization gain for the song on each deck; a deck fading out keeps
+  // the gain of the song it is finishing
+  const normalization = options.normalization ?? 'off';
+  useEffect(() => {
+    const collection = state.listSource === 'collection' ? state.originalList : null;
+    decks.files.forEach((fileId, i) => {
+      const audio = deckRefs[i].current;
+      const song = [state.currentSong, nextSong].find(candidate => candidate?.file_id === fileId);
+      if (!audio || !song || audio === fadeRef.current?.from) return;
+      getAudioGraph().setGain(audio, normalizationGain(song, normalization, collection));
+    });
+  }, [decks, state.currentSong, nextSong?.file_id, state.originalList, state.listSource, normalization]);
+
+  useEffect(() => {
+    deckRefs.forEach(ref => {
+      if (ref.current) ref.current.volume = state.volume;
+    });
+  }, [state.volume]);
+
+  // Loading a new source resets playbackRate to defaultPlaybackRate, so set both
+  const playbackRate = selectPlaybackRate(state);
+  useEffect(() => {
+    deckRefs.forEach(ref => {
+      const audio = ref.current;
+      if (!audio || audio === fadeRef.current?.from) return;
+      audio.defaultPlaybackRate = playbackRate;
+      audio.playbackRate = playbackRate;
+      audio.preservesPitch = state.preservesPitch;
+    });
+  }, [playbackRate, state.preservesPitch, decks]);
+
+  // Media events only count from the active deck
+  const fromActive = (handler: () => void) => (event: React.SyntheticEvent<HTMLAudioElement>) => {
+    if (event.currentTarget === audioRef.current && event.currentTarget !== fadeRef.current?.from) handler();
+  };
+
+  const mediaHandlers: React.AudioHTMLAttributes<HTMLAudioElement> = {
+    onLoadedMetadata: fromActive(handleLoadedMetadata),
+    onDurationChange: fromActive(() => {
+      if (audioRef.current) send({ type: 'MEDIA_LOADED', duration: audioRef.current.duration });
+    }),
+    onTimeUpdate: fromActive(() => {
+      if (!audioRef.current) return;
+      const { loop } = stateRef.current;
+      if (loop && audioRef.current.currentTime >= loop.end) {
+        seek(loop.start);
+        return;
+      }
+      send({ type: 'MEDIA_TIME', time: audioRef.current.currentTime });
+      maybeCrossfade();
+    }),
+    onWaiting: fromActive(() => send({ type: 'MEDIA_WAITING' })),
+    onPlaying: fromActive(() => send({ type: 'MEDIA_PLAYING' })),
+    onPause: fromActive(() => {
+      if (!audioRef.current?.ended) send({ type: 'MEDIA_PAUSED' });
+    }),
+    onEnded: fromActive(handleEnded),
+    onError: fromActive(() => {
+      const error = audioRef.current?.error;
+      if (error) send({ type: 'MEDIA_ERROR', message: error.message || `Media error ${error.code}` });
+    }),
+  };
+
+  const resumeAt = useCallback((time: number) => {
+    seek(time);
+    play();
+  }, [seek, play]);
+  const { resumeOffer, acceptResume, dismissResume } = useResumePosition(
+    state,
+    options.resume,
+    restoredFileIdRef,
+    resumeAt
+  );
+
+  const retry = useCallback((time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    // Before load(), whose pause event would otherwise count as the user's
+    send({ type: 'MEDIA_RETRY', time });
+    audio.load();
+    // Applied once the metadata is back
+    audio.currentTime = time;
+  }, []);
+  usePlaybackRecovery(state, options.onPlaybackFailure, { retry, skip: next, pause });
+
+  const updateSong = useCallback((song: Song) => send({ type: 'UPDATE_SONG', song }), []);
+  const setVolume = useCallback((volume: number) => send({ type: 'SET_VOLUME', volume }), []);
+  const setPreservesPitch = useCallback(
+    (preservesPitch: boolean) => send({ type: 'SET_PRESERVES_PITCH', preservesPitch }),
+    []
+  );
+  const setRepeatMode = useCallback((mode: RepeatMode) => send({ type: 'SET_REPEAT', mode }), []);
+  const setLoop = useCallback((loop: LoopRange | null) => send({ type: 'SET_LOOP', loop }), []);
+
+  return {
+    state,
+    isPlaying: selectIsPlaying(state),
+    context: selectPlaybackContext(state),
+    queue: queue.queue,
+    playSong,
+    playCollection,
+    play,
+    pause,
+    togglePlay,
+    next,
+    previous,
+    seek,
+    setVolume,
+    setPlaybackRate,
+    setPreservesPitch,
+    playbackRate,
+    setLoop,
+    setShuffleMode,
+    setRepeatMode,
+    updateSong,
+    stop,
+    resumeOffer,
+    acceptResume,
+    dismissResume,
+    addToQueue: queue.addToQueue,
+    playNext: queue.playNext,
+    removeFromQueue: queue.removeFromQueue,
+    restoreQueueItems: queue.restoreItems,
+    moveQueueItem: queue.moveQueueItem,
+    clearQueue: queue.clearQueue,
+    decks: deckRefs.map((ref, i) => {
+      const fileId = decks.files[i];
+      return {
+        ref,
+        src: fileId === null ? undefined : audioUrl(fileId),
+        handlers: mediaHandlers,
+      };
+    }),
+  };
+}
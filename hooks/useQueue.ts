@@ -1,4 +1,5 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
+import { shuffle } from '@/lib/shuffle';
 import { Song } from '@/types';
 
 export interface QueueItem {
@@ -9,6 +10,8 @@ export interface QueueItem {
 
 export function useQueue() {
   const [queue, setQueue] = useState<QueueItem[]>([]);
+  // Item order from before the queue was shuffled
+  const originalOrderRef = useRef<string[] | null>(null);
 
   const addToQueue = useCallback((song: Song) => {
     const queueItem: QueueItem = {
@@ -20,6 +23,32 @@ export function useQueue() {
     setQueue(prev => [...prev, queueItem]);
   }, []);
 
+  // Queues a song ahead of everything else, to play after the current one
+  const playNext = useCallback((song: Song) => {
+    const queueItem: QueueItem = {
+      id: `${song.id}-${Date.now()}`,
+      song,
+      addedAt: new Date()
+    };
+
+    setQueue(prev => [queueItem, ...prev]);
+  }, []);
+
+  // Puts removed items back at `index` (undoing a remove or a clear)
+  const restoreItems = useCallback((items: QueueItem[], index = 0) => {
+    setQueue(prev => {
+      const newQueue = [...prev];
+      newQueue.splice(Math.min(index, prev.length), 0, ...items);
+      return newQueue;
+    });
+  }, []);
+
+  // Replaces the queue with saved songs (restoring it after a reload)
+  const restoreQueue = useCallback((songs: Song[]) => {
+    originalOrderRef.current = null;
+    setQueue(songs.map((song, i) => ({ id: `${song.id}-${Date.now()}-${i}`, song, addedAt: new Date() })));
+  }, []);
+
   const removeFromQueue = useCallback((itemId: string) => {
     setQueue(prev => prev.filter(item => item.id !== itemId));
   }, []);
@@ -45,13 +74,37 @@ export function useQueue() {
     });
   }, []);
 
+  const shuffleQueue = useCallback(() => {
+    originalOrderRef.current = queue.map(item => item.id);
+    setQueue(shuffle(queue));
+  }, [queue]);
+
+  // Puts what is left of a shuffled queue back in the order it was added in;
+  // songs queued while shuffled stay at the end
+  const unshuffleQueue = useCallback(() => {
+    const order = originalOrderRef.current;
+    originalOrderRef.current = null;
+    if (!order) return;
+
+    const rank = (item: QueueItem) => {
+      const index = order.indexOf(item.id);
+      return index === -1 ? order.length : index;
+    };
+    setQueue(prev => prev.slice().sort((a, b) => rank(a) - rank(b)));
+  }, []);
+
   return {
     queue,
     addToQueue,
+    playNext,
     removeFromQueue,
+    restoreItems,
     getNextSongFromQueue,
     clearQueue,
     moveQueueItem,
+    shuffleQueue,
+    unshuffleQueue,
+    restoreQueue,
     hasQueue: queue.length > 0
   };
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { PlayerState } from '@/lib/playerMachine';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+// Positions this close to either end of a song aren't worth resuming
+const RESUME_MARGIN_S = 30;
+
+// How often the position is saved while a song plays
+const SAVE_EVERY_MS = 15_000;
+
+export interface ResumeOptions {
+  // Songs at least this many seconds long offer to resume; the last played
+  // song always does
+  minDuration: number;
+  load: (fileId: number) => Promise<number | null>;
+  // A position of 0 forgets the song's position
+  save: (fileId: number, position: number, duration: number) => void;
+}
+
+export interface ResumeOffer {
+  fileId: number;
+  position: number;
+}
+
+interface Tracked {
+  fileId: number;
+  time: number;
+  duration: number;
+  // Only songs that actually played get saved, so skipping past a song
+  // doesn't throw away the position it had
+  played: boolean;
+  savedAt: number;
+}
+
+// Saves where a resumable song is (throttled, and whenever it pauses or
+// changes) and offers to pick it up from its saved position
+export function useResumePosition(
+  state: PlayerState,
+  options: ResumeOptions | undefined,
+  restoredFileIdRef: React.RefObject<number | null>,
+  resumeAt: (time: number) => void
+) {
+  const [offer, setOffer] = useState<ResumeOffer | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const trackedRef = useRef<Tracked | null>(null);
+
+  const fileId = state.currentSong?.file_id ?? null;
+  const fileIdRef = useRef(fileId);
+  fileIdRef.current = fileId;
+
+  // Only the last played song and long songs offer to resume, so only their
+  // positions are looked up and saved
+  const canResume = (resume: ResumeOptions, songFileId: number, duration: number) =>
+    songFileId === restoredFileIdRef.current || duration >= resume.minDuration;
+
+  const save = (tracked: Tracked) => {
+    const resume = optionsRef.current;
+    if (!resume || !tracked.played || !canResume(resume, tracked.fileId, tracked.duration)) return;
+    const { time, duration } = tracked;
+    const worthResuming = time >= RESUME_MARGIN_S && duration - time >= RESUME_MARGIN_S;
+    resume.save(tracked.fileId, worthResuming ? time : 0, duration);
+    tracked.savedAt = Date.now();
+  };
+
+  useEffect(() => {
+    if (fileId === null || state.duration <= 0) return;
+
+    const tracked = trackedRef.current;
+    if (!tracked || tracked.fileId !== fileId) {
+      trackedRef.current = { fileId, time: state.currentTime, duration: state.duration, played: false, savedAt: Date.now() };
+      return;
+    }
+
+    tracked.time = state.currentTime;
+    tracked.duration = state.duration;
+    if (state.status === 'playing') tracked.played = true;
+
+    if (state.status === 'paused' || Date.now() - tracked.savedAt >= SAVE_EVERY_MS) {
+      save(tracked);
+    }
+  }, [state.currentTime, state.duration, state.status, fileId]);
+
+  // Save the song being left, and look up where the new one was left
+  useEffect(() => {
+    setOffer(null);
+    return () => {
+      if (trackedRef.current) save(trackedRef.current);
+      trackedRef.current = null;
+    };
+  }, [fileId]);
+
+  const loaded = state.duration > 0;
+  useEffect(() => {
+    const resume = optionsRef.current;
+    if (!resume || fileId === null || !loaded) return;
+
+    const { duration } = state;
+    if (!canResume(resume, fileId, duration)) return;
+
+    resume.load(fileId)
+      .then(position => {
+        if (position === null || position < RESUME_MARGIN_S || duration - position < RESUME_MARGIN_S) return;
+        if (fileIdRef.current !== fileId) return;
+        setOffer(prev => prev ?? { fileId, position });
+      })
+      .catch(error => console.error('❌ Error loading playback position:', error));
+  }, [fileId, loaded]);
+
+  const acceptResume = useCallback(() => {
+    if (!offer) return;
+    resumeAt(offer.position);
+    setOffer(null);
+  }, [offer, resumeAt]);
+
+  const dismissResume = useCallback(() => setOffer(null), []);
+
+  return {
+    // Only for the song that's playing, in case it changed while loading
+    resumeOffer: offer?.fileId === fileId ? offer : null,
+    acceptResume,
+    dismissResume,
+  };
+}
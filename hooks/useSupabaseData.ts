@@ -1,8 +1,14 @@
+import { apiFetch } from '@/lib/apiClient'
+import { playlistArtworkUrl, songArtworkUrl } from '@/lib/artwork'
+import { newerSnapshot, QueueSnapshot, readLocalSnapshot, resolveSnapshot, SavedQueue, writeLocalSnapshot } from '@/lib/queueSnapshot'
 import { DatabaseSong, supabase } from '@/lib/supabase'
-import { Playlist, Song } from '@/types'
+import { Bookmark, EqPreset, PlaybackContext, Playlist, Song } from '@/types'
 import { User } from '@supabase/supabase-js'
 import { useEffect, useRef, useState } from 'react'
 
+// The saved queue goes to Supabase once it has been left alone this long
+const QUEUE_SYNC_DELAY_MS = 5000
+
 export function useSupabaseData(user: User | null) {
   const [songs, setSongs] = useState<Song[]>([])
   const [playlists, setPlaylists] = useState<Playlist[]>([])
@@ -10,9 +16,13 @@ export function useSupabaseData(user: User | null) {
   const [lastPlayedSong, setLastPlayedSong] = useState<Song | null>(null)
   const [recentlyPlayedSongs, setRecentlyPlayedSongs] = useState<Song[]>([])
   const [personalizedSongs, setPersonalizedSongs] = useState<Song[]>([])
+  const [eqPresets, setEqPresets] = useState<EqPreset[]>([])
+  const [savedQueue, setSavedQueue] = useState<SavedQueue | null>(null)
+  const queueSyncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const [loading, setLoading] = useState(true)
   const [currentSongStartTime, setCurrentSongStartTime] = useState<Date | null>(null)
   const currentSongRef = useRef<string | null>(null)
+  const currentContextRef = useRef<PlaybackContext | null>(null)
 
   // Get personalized songs based on user's actual listening preferences
   const getSmartPersonalizedSongs = async (
@@ -144,8 +154,10 @@ export function useSupabaseData(user: User | null) {
     tags: dbSong.tags,
     views: dbSong.views,
     likes: dbSong.likes,
+    loudness: dbSong.loudness_lufs,
+    peak: dbSong.peak_dbfs,
     id: dbSong.file_id.toString(),
-    image: `https://images.pexels.com/photos/${dbSong.img_id}/pexels-photo-${dbSong.img_id}.jpeg?auto=compress&cs=tinysrgb&w=300`,
+    image: songArtworkUrl(dbSong.img_id),
     isLiked
   })
 
@@ -190,10 +202,22 @@ export function useSupabaseData(user: User | null) {
 
       const { data: userData } = await supabase
         .from('users')
-        .select('last_song_file_id')
+        .select('last_song_file_id, eq_presets')
         .eq('id', user.id)
         .single()
 
+      setEqPresets(userData?.eq_presets ?? [])
+
+      // This device's copy is usually the newer one; another device's wins
+      // if it was used since
+      const { data: queueRow } = await supabase
+        .from('user_queue')
+        .select('snapshot')
+        .eq('user_id', user.id)
+        .maybeSingle()
+      const snapshot = newerSnapshot(readLocalSnapshot(user.id), queueRow?.snapshot ?? null)
+      setSavedQueue(snapshot ? resolveSnapshot(snapshot, convertedSongs) : null)
+
       if (userData?.last_song_file_id) {
         const lastSong = convertedSongs.find(song => song.file_id === userData.last_song_file_id)
         if (lastSong) {
@@ -585,6 +609,7 @@ export function useSupabaseData(user: User | null) {
         .select(`
           id,
           name,
+          cover_img_id,
           playlist_songs (
             songs (*)
           )
@@ -598,12 +623,15 @@ export function useSupabaseData(user: User | null) {
           convertDatabaseSong(ps.songs, likedSongs.has(ps.songs.file_id))
         ) || []
 
+        const coverImgId = playlist.cover_img_id ?? undefined
+
         return {
           id: playlist.id.toString(),
           name: playlist.name,
           songCount: playlistSongs.length,
-          image: playlistSongs[0]?.image || 'https://images.pexels.com/photos/1763075/pexels-photo-1763075.jpeg?auto=compress&cs=tinysrgb&w=300',
-          songs: playlistSongs
+          image: playlistArtworkUrl({ songs: playlistSongs, coverImgId }),
+          songs: playlistSongs,
+          coverImgId
         }
       }) || []
 
@@ -712,7 +740,7 @@ setSongs(prevSongs =>
         id: data.id.toString(),
         name: data.name,
         songCount: 0,
-        image: 'https://images.pexels.com/photos/1763075/pexels-photo-1763075.jpeg?auto=compress&cs=tinysrgb&w=300',
+        image: '',
         songs: []
       }
 
@@ -790,7 +818,7 @@ setSongs(prevSongs =>
                 ...playlist,
                 songs: updatedSongs,
                 songCount: updatedSongs.length,
-                image: updatedSongs[0]?.image || playlist.image
+                image: playlistArtworkUrl({ ...playlist, songs: updatedSongs })
               }
             }
           }
@@ -823,7 +851,7 @@ setSongs(prevSongs =>
               ...playlist,
               songs: updatedSongs,
               songCount: updatedSongs.length,
-              image: updatedSongs[0]?.image || 'https://images.pexels.com/photos/1763075/pexels-photo-1763075.jpeg?auto=compress&cs=tinysrgb&w=300'
+              image: playlistArtworkUrl({ ...playlist, songs: updatedSongs })
             }
           }
           return playlist
@@ -834,6 +862,229 @@ setSongs(prevSongs =>
     }
   }
 
+  // Replace the playlist's generated collage with an uploaded image
+  const uploadPlaylistCover = async (playlistId: string, file: File) => {
+    if (!user) return
+
+    try {
+      const image = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(file)
+      })
+
+      const response = await apiFetch('/api/playlist-cover', {
+        method: 'POST',
+        body: JSON.stringify({ playlistId, image })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+
+      updatePlaylistCover(playlistId, result.coverImgId)
+    } catch (error) {
+      console.error('Error uploading playlist cover:', error)
+    }
+  }
+
+  // Drop a custom cover and go back to the generated collage
+  const resetPlaylistCover = async (playlistId: string) => {
+    if (!user) return
+
+    try {
+      const response = await apiFetch(`/api/playlist-cover?playlistId=${playlistId}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error((await response.json()).error)
+
+      updatePlaylistCover(playlistId, undefined)
+    } catch (error) {
+      console.error('Error resetting playlist cover:', error)
+    }
+  }
+
+  const updatePlaylistCover = (playlistId: string, coverImgId: number | undefined) => {
+    setPlaylists(prev =>
+      prev.map(playlist => {
+        if (playlist.id !== playlistId) return playlist
+        const updated = { ...playlist, coverImgId }
+        return { ...updated, image: playlistArtworkUrl(updated) }
+      })
+    )
+  }
+
+  // Custom equalizer presets live on the user's profile row
+  const saveEqPresets = async (presets: EqPreset[]) => {
+    if (!user) return
+
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update({ eq_presets: presets })
+        .eq('id', user.id)
+
+      if (error) throw error
+
+      setEqPresets(presets)
+    } catch (error) {
+      console.error('Error saving equalizer presets:', error)
+      throw error
+    }
+  }
+
+  const saveEqPreset = async (name: string, gains: number[]): Promise<EqPreset> => {
+    const preset: EqPreset = { id: `custom-${Date.now()}`, name, gains }
+    await saveEqPresets([...eqPresets, preset])
+    return preset
+  }
+
+  const deleteEqPreset = async (presetId: string) => {
+    await saveEqPresets(eqPresets.filter(preset => preset.id !== presetId))
+  }
+
+  // Where the user left off in a song, in seconds
+  const getPlaybackPosition = async (songFileId: number): Promise<number | null> => {
+    if (!user) return null
+
+    try {
+      const { data, error } = await supabase
+        .from('playback_positions')
+        .select('position')
+        .eq('user_id', user.id)
+        .eq('song_file_id', songFileId)
+        .maybeSingle()
+
+      if (error) throw error
+      return data?.position ?? null
+    } catch (error) {
+      console.error('Error fetching playback position:', error)
+      return null
+    }
+  }
+
+  // A position of 0 forgets the song's position (it was played to the end)
+  const savePlaybackPosition = async (songFileId: number, position: number, duration: number) => {
+    if (!user) return
+
+    try {
+      const { error } = position > 0
+        ? await supabase
+            .from('playback_positions')
+            .upsert(
+              { user_id: user.id, song_file_id: songFileId, position, duration, updated_at: new Date().toISOString() },
+              { onConflict: 'user_id,song_file_id' }
+            )
+        : await supabase
+            .from('playback_positions')
+            .delete()
+            .eq('user_id', user.id)
+            .eq('song_file_id', songFileId)
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error saving playback position:', error)
+    }
+  }
+
+  // The user's bookmarks in a song, in playing order
+  const getBookmarks = async (songFileId: number): Promise<Bookmark[]> => {
+    if (!user) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('track_bookmarks')
+        .select('id, song_file_id, position, name')
+        .eq('user_id', user.id)
+        .eq('song_file_id', songFileId)
+        .order('position')
+
+      if (error) throw error
+      return (data ?? []).map(row => ({
+        id: row.id,
+        fileId: row.song_file_id,
+        position: row.position,
+        name: row.name
+      }))
+    } catch (error) {
+      console.error('Error fetching bookmarks:', error)
+      return []
+    }
+  }
+
+  const addBookmark = async (songFileId: number, position: number, name: string): Promise<Bookmark> => {
+    if (!user) throw new Error('Not signed in')
+
+    try {
+      const { data, error } = await supabase
+        .from('track_bookmarks')
+        .insert({ user_id: user.id, song_file_id: songFileId, position, name })
+        .select('id')
+        .single()
+
+      if (error) throw error
+      return { id: data.id, fileId: songFileId, position, name }
+    } catch (error) {
+      console.error('Error adding bookmark:', error)
+      throw error
+    }
+  }
+
+  const deleteBookmark = async (bookmarkId: string) => {
+    if (!user) return
+
+    try {
+      const { error } = await supabase
+        .from('track_bookmarks')
+        .delete()
+        .eq('id', bookmarkId)
+        .eq('user_id', user.id)
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error deleting bookmark:', error)
+      throw error
+    }
+  }
+
+  // Saves the player's queue on this device right away and in Supabase once
+  // it stops changing
+  const saveQueueSnapshot = (snapshot: QueueSnapshot) => {
+    if (!user) return
+
+    writeLocalSnapshot(user.id, snapshot)
+
+    if (queueSyncTimerRef.current) clearTimeout(queueSyncTimerRef.current)
+    queueSyncTimerRef.current = setTimeout(async () => {
+      queueSyncTimerRef.current = null
+      try {
+        const { error } = await supabase
+          .from('user_queue')
+          .upsert(
+            { user_id: user.id, snapshot, updated_at: new Date().toISOString() },
+            { onConflict: 'user_id' }
+          )
+
+        if (error) throw error
+      } catch (error) {
+        console.error('Error saving queue:', error)
+      }
+    }, QUEUE_SYNC_DELAY_MS)
+  }
+
+  // Counts a song the player gave up on, for /api/admin/playback-failures
+  const reportPlaybackFailure = async (songFileId: number, message: string) => {
+    if (!user) return
+
+    try {
+      const { error } = await supabase.rpc('record_playback_failure', {
+        p_song_file_id: songFileId,
+        p_error: message
+      })
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error reporting playback failure:', error)
+    }
+  }
+
   // Update last song in user profile
   const updateLastSong = async (songId: string) => {
     if (!user) return
@@ -850,8 +1101,23 @@ setSongs(prevSongs =>
     }
   }
 
+  // Remember where a song was last played from next to its listening minutes
+  const recordHistoryContext = async (songId: string, context: PlaybackContext | null) => {
+    if (!user || !context) return
+
+    const { error } = await supabase
+      .from('history')
+      .update({ last_context: context })
+      .eq('user_id', user.id)
+      .eq('song_id', parseInt(songId))
+
+    if (error) {
+      console.error('❌ Error recording playback context:', error)
+    }
+  }
+
   // Record listening history with proper time tracking
-  const recordListeningHistory = async (songId: string) => {
+  const recordListeningHistory = async (songId: string, context: PlaybackContext | null = null) => {
     if (!user) return
 
     // If there's a previous song playing, record its listening time
@@ -872,6 +1138,7 @@ setSongs(prevSongs =>
           console.error('❌ Error recording song history:', error);
         } else {
           console.log(`✅ History updated: +${minutes} mins for song ${currentSongRef.current}`);
+          await recordHistoryContext(currentSongRef.current, currentContextRef.current);
         }
       } catch (error) {
         console.error('Error recording previous song history:', error);
@@ -882,6 +1149,7 @@ setSongs(prevSongs =>
 
     // Set new song as current
     currentSongRef.current = songId
+    currentContextRef.current = context
     setCurrentSongStartTime(new Date())
     
     // Update last song in user profile
@@ -913,6 +1181,7 @@ try {
       console.error('❌ Error recording song history on stop:', error);
     } else {
       console.log(`🛑 History updated on stop: +${minutes} mins for song ${currentSongRef.current}`);
+      await recordHistoryContext(currentSongRef.current, currentContextRef.current);
     }
   } catch (error) {
     console.error('Error recording final song history:', error);
@@ -922,6 +1191,7 @@ try {
     }
 
     currentSongRef.current = null
+    currentContextRef.current = null
     setCurrentSongStartTime(null)
   }
 
@@ -933,6 +1203,8 @@ try {
         setPlaylists([])
         setLikedSongs(new Set())
         setLastPlayedSong(null)
+        setEqPresets([])
+        setSavedQueue(null)
         setLoading(false)
         return
       }
@@ -957,6 +1229,8 @@ try {
     likedSongs: songs.filter(song => song.isLiked),
     recentlyPlayedSongs,
     lastPlayedSong,
+    savedQueue,
+    saveQueueSnapshot,
     loading,
     toggleLike,
     createPlaylist,
@@ -964,6 +1238,17 @@ try {
     renamePlaylist,
     addSongToPlaylist,
     removeSongFromPlaylist,
+    uploadPlaylistCover,
+    resetPlaylistCover,
+    eqPresets,
+    saveEqPreset,
+    deleteEqPreset,
+    getPlaybackPosition,
+    savePlaybackPosition,
+    getBookmarks,
+    addBookmark,
+    deleteBookmark,
+    reportPlaybackFailure,
     recordListeningHistory,
     stopCurrentSongTracking,
     refreshData: () => {
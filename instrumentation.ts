@@ -0,0 +1,8 @@
+// Runs once when the Next.js server boots, so a misconfigured deployment
+// fails immediately instead of on the first proxied request.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getServerConfig } = await import('./lib/config');
+    getServerConfig();
+  }
+}
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerConfig } from '@/lib/config';
+
+// Guards an admin API route. Responds and returns false unless the request
+// carries `Authorization: Bearer <ADMIN_TOKEN>`.
+export function requireAdmin(req: NextApiRequest, res: NextApiResponse): boolean {
+  const { adminToken } = getServerConfig();
+
+  if (!adminToken) {
+    res.status(404).json({ error: 'Admin endpoints are disabled' });
+    return false;
+  }
+
+  if (req.headers.authorization !== `Bearer ${adminToken}`) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,17 @@
+import { supabase } from '@/lib/supabase'
+
+// fetch() for our own API routes that attaches the signed-in user's access
+// token, which the routes verify with getRequestAuth (lib/supabaseServer.ts).
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession()
+  const headers = new Headers(init.headers)
+
+  if (session) {
+    headers.set('Authorization', `Bearer ${session.access_token}`)
+  }
+  if (init.body && typeof init.body === 'string' && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json')
+  }
+
+  return fetch(path, { ...init, headers })
+}
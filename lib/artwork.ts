@@ -0,0 +1,89 @@
+import { Playlist, Song } from '@/types';
+
+// Single place that knows how artwork URLs are built. Everything goes
+// through /api/image-proxy, sized for how large the image is displayed.
+
+export interface ArtworkSource {
+  src: string;
+  srcSet: string;
+}
+
+export function imageProxyUrl(fileId: number | string, width?: number): string {
+  const base = `/api/image-proxy?fileid=${fileId}`;
+  return width ? `${base}&w=${width}` : base;
+}
+
+// `src`/`srcSet` pair for an image rendered `cssWidth` pixels wide, so
+// high-density screens get a 2x variant and everyone else the 1x one.
+export function imageSrcSet(fileId: number | string, cssWidth: number): ArtworkSource {
+  return {
+    src: imageProxyUrl(fileId, cssWidth * 2),
+    srcSet: `${imageProxyUrl(fileId, cssWidth)} 1x, ${imageProxyUrl(fileId, cssWidth * 2)} 2x`,
+  };
+}
+
+export function songArtwork(song: Pick<Song, 'img_id'>, cssWidth: number): ArtworkSource {
+  return imageSrcSet(song.img_id, cssWidth);
+}
+
+// Full-size URL stored on `Song.image` for places that need a plain string
+export function songArtworkUrl(imgId: number): string {
+  return imageProxyUrl(imgId);
+}
+
+// Sizes offered to the OS media controls (lock screen, notifications), as
+// JPEG since the system may fetch them without an Accept header we negotiate on
+const MEDIA_SESSION_WIDTHS = [96, 224, 448, 640];
+
+export function mediaSessionArtwork(song: Pick<Song, 'img_id'>): MediaImage[] {
+  return MEDIA_SESSION_WIDTHS.map(width => ({
+    src: `${imageProxyUrl(song.img_id, width)}&format=jpeg`,
+    sizes: `${width}x${width}`,
+    type: 'image/jpeg',
+  }));
+}
+
+function collageUrl(covers: number[], width: number): string {
+  return `/api/playlist-cover?covers=${covers.join(',')}&w=${width}`;
+}
+
+// First four distinct covers of a playlist, in playlist order
+function distinctCovers(songs: Pick<Song, 'img_id'>[]): number[] {
+  const covers: number[] = [];
+  for (const song of songs) {
+    if (!covers.includes(song.img_id)) covers.push(song.img_id);
+    if (covers.length === 4) break;
+  }
+  return covers;
+}
+
+// A custom cover wins; otherwise playlists with four distinct covers get a
+// server-rendered 2x2 collage and smaller ones their first cover on its own.
+// Empty playlists get no artwork at all.
+export function playlistArtwork(playlist: Pick<Playlist, 'songs' | 'coverImgId'>, cssWidth: number): ArtworkSource | null {
+  if (playlist.coverImgId) return imageSrcSet(playlist.coverImgId, cssWidth);
+
+  const covers = distinctCovers(playlist.songs);
+  if (covers.length === 0) return null;
+  if (covers.length < 4) return imageSrcSet(covers[0], cssWidth);
+
+  return {
+    src: collageUrl(covers, cssWidth * 2),
+    srcSet: `${collageUrl(covers, cssWidth)} 1x, ${collageUrl(covers, cssWidth * 2)} 2x`,
+  };
+}
+
+// Full-size URL stored on `Playlist.image` for places that need a plain string
+export function playlistArtworkUrl(playlist: Pick<Playlist, 'songs' | 'coverImgId'>): string {
+  return playlistArtwork(playlist, 320)?.src ?? '';
+}
+
+// An artist is represented by the cover of their most viewed song
+export function artistArtwork(artist: string, songs: Song[], cssWidth: number): ArtworkSource | null {
+  const name = artist.toLowerCase().trim();
+  const top = songs
+    .filter(song => song.artist.toLowerCase().trim() === name)
+    .sort((a, b) => b.views - a.views)[0];
+
+  return top ? imageSrcSet(top.img_id, cssWidth) : null;
+}
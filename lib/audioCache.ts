@@ -0,0 +1,260 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { getServerConfig } from '@/lib/config';
+import { getStorageProvider, StorageError, StorageProvider, StorageStream, StorageStreamOptions } from '@/lib/storage';
+import { addRange, isRangeCovered, parseRange, RangeSet, rangeSetLength } from '@/lib/storage/range';
+
+// Size-capped disk cache for audio files, keyed by file id. Each file is kept
+// as a sparse `<id>.bin` of its full size plus a `<id>.json` sidecar listing
+// which byte ranges are already on disk. Ranges are filled as chunks stream
+// through the proxy, so a song is fully cached after it has been played once.
+
+interface CacheEntry {
+  fileId: string;
+  size: number;
+  contentType: string;
+  ranges: RangeSet;
+  lastAccess: number;
+  activeStreams: number;
+}
+
+export interface AudioCacheStats {
+  entries: number;
+  cachedBytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  bytesFromCache: number;
+  bytesFromUpstream: number;
+  evictions: number;
+  evictedBytes: number;
+}
+
+interface AudioCacheOptions {
+  dir: string;
+  maxBytes: number;
+  storage: StorageProvider;
+}
+
+export function createAudioCache({ dir, maxBytes, storage }: AudioCacheOptions) {
+  const entries = new Map<string, CacheEntry>();
+  const stats = {
+    hits: 0,
+    misses: 0,
+    bytesFromCache: 0,
+    bytesFromUpstream: 0,
+    evictions: 0,
+    evictedBytes: 0,
+  };
+
+  const dataPath = (fileId: string) => path.join(dir, `${fileId}.bin`);
+  const metaPath = (fileId: string) => path.join(dir, `${fileId}.json`);
+
+  const loadIndex = async () => {
+    await fs.promises.mkdir(dir, { recursive: true });
+    for (const name of await fs.promises.readdir(dir)) {
+      if (!name.endsWith('.json')) continue;
+      try {
+        const meta = JSON.parse(await fs.promises.readFile(path.join(dir, name), 'utf8'));
+        entries.set(meta.fileId, { ...meta, activeStreams: 0 });
+      } catch (error) {
+        console.warn(`Ignoring unreadable audio cache entry ${name}:`, error);
+      }
+    }
+  };
+  const ready = loadIndex();
+
+  const cachedBytes = () => {
+    let total = 0;
+    entries.forEach(entry => { total += rangeSetLength(entry.ranges); });
+    return total;
+  };
+
+  const saveMeta = async (entry: CacheEntry) => {
+    const { fileId, size, contentType, ranges, lastAccess } = entry;
+    await fs.promises.writeFile(metaPath(fileId), JSON.stringify({ fileId, size, contentType, ranges, lastAccess }));
+  };
+
+  const remove = async (entry: CacheEntry) => {
+    entries.delete(entry.fileId);
+    await Promise.all([
+      fs.promises.rm(dataPath(entry.fileId), { force: true }),
+      fs.promises.rm(metaPath(entry.fileId), { force: true }),
+    ]);
+  };
+
+  // Drops least recently used entries until the cache fits, skipping any
+  // entry that is still being read or filled.
+  const evict = async () => {
+    let total = cachedBytes();
+    if (total <= maxBytes) return;
+
+    const candidates = Array.from(entries.values())
+      .filter(entry => entry.activeStreams === 0)
+      .sort((a, b) => a.lastAccess - b.lastAccess);
+
+    for (const entry of candidates) {
+      if (total <= maxBytes) break;
+      const bytes = rangeSetLength(entry.ranges);
+      await remove(entry);
+      total -= bytes;
+      stats.evictions++;
+      stats.evictedBytes += bytes;
+    }
+  };
+
+  // Entries being created; concurrent first requests for a file share one so
+  // the data file is only ever created (and truncated) once
+  const pendingEntries = new Map<string, Promise<CacheEntry>>();
+
+  const createEntry = async (fileId: string): Promise<CacheEntry> => {
+    const { size, contentType } = await storage.stat(fileId);
+    const existing = entries.get(fileId);
+    if (existing) return existing;
+
+    const entry: CacheEntry = { fileId, size, contentType, ranges: [], lastAccess: Date.now(), activeStreams: 0 };
+
+    const handle = await fs.promises.open(dataPath(fileId), 'w');
+    await handle.truncate(size);
+    await handle.close();
+
+    entries.set(fileId, entry);
+    return entry;
+  };
+
+  const getEntry = async (fileId: string): Promise<CacheEntry> => {
+    await ready;
+    const existing = entries.get(fileId);
+    if (existing) return existing;
+
+    const pending = pendingEntries.get(fileId);
+    if (pending) return pending;
+
+    const task = createEntry(fileId);
+    pendingEntries.set(fileId, task);
+    try {
+      return await task;
+    } finally {
+      pendingEntries.delete(fileId);
+    }
+  };
+
+  // Passes `body` through while writing every chunk into the sparse file at
+  // its offset, starting at byte `start`.
+  const teeIntoCache = async (entry: CacheEntry, body: Readable, start: number): Promise<Readable> => {
+    const handle = await fs.promises.open(dataPath(entry.fileId), 'r+');
+    let offset = start;
+
+    const tee = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        const chunkStart = offset;
+        offset += chunk.length;
+        handle.write(chunk, 0, chunk.length, chunkStart)
+          .then(() => {
+            entry.ranges = addRange(entry.ranges, chunkStart, chunkStart + chunk.length - 1);
+            stats.bytesFromUpstream += chunk.length;
+            callback(null, chunk);
+          })
+          .catch(callback);
+      },
+    });
+
+    body.on('error', error => tee.destroy(error));
+    tee.on('close', async () => {
+      body.destroy();
+      entry.activeStreams--;
+      await handle.close().catch(() => {});
+      await saveMeta(entry).catch(error => console.error('Failed to save audio cache entry:', error));
+      await evict().catch(error => console.error('Audio cache eviction failed:', error));
+    });
+
+    return body.pipe(tee);
+  };
+
+  const stream = async (fileId: string, options: StorageStreamOptions = {}): Promise<StorageStream> => {
+    const entry = await getEntry(fileId);
+    const range = parseRange(options.range, entry.size);
+
+    if (range === 'unsatisfiable') {
+      throw new StorageError('Requested range not satisfiable', 416);
+    }
+
+    const start = range ? range.start : 0;
+    const end = range ? range.end : entry.size - 1;
+    const length = end - start + 1;
+    const status = range ? 206 : 200;
+    const headers: Record<string, string> = {
+      'accept-ranges': 'bytes',
+      'content-type': entry.contentType,
+      'content-length': String(length),
+    };
+    if (range) {
+      headers['content-range'] = `bytes ${start}-${end}/${entry.size}`;
+    }
+
+    entry.lastAccess = Date.now();
+    entry.activeStreams++;
+
+    if (isRangeCovered(entry.ranges, start, end)) {
+      stats.hits++;
+      stats.bytesFromCache += length;
+      const body = fs.createReadStream(dataPath(fileId), { start, end });
+      body.on('close', () => { entry.activeStreams--; });
+      return { status, headers, body };
+    }
+
+    stats.misses++;
+    let upstream: StorageStream;
+    try {
+      upstream = await storage.stream(fileId, { range: `bytes=${start}-${end}` });
+    } catch (error) {
+      entry.activeStreams--;
+      throw error;
+    }
+
+    const servesRequestedBytes = upstream.status === 206
+      || (upstream.status === 200 && start === 0 && end === entry.size - 1);
+    if (!servesRequestedBytes) {
+      // The backend ignored or rejected the range; pass its answer through
+      // untouched rather than caching bytes at the wrong offset.
+      entry.activeStreams--;
+      return upstream;
+    }
+
+    return { status, headers, body: await teeIntoCache(entry, upstream.body, start) };
+  };
+
+  const getStats = async (): Promise<AudioCacheStats> => {
+    await ready;
+    return {
+      entries: entries.size,
+      cachedBytes: cachedBytes(),
+      maxBytes,
+      ...stats,
+    };
+  };
+
+  const clear = async () => {
+    await ready;
+    const idle = Array.from(entries.values()).filter(entry => entry.activeStreams === 0);
+    await Promise.all(idle.map(remove));
+  };
+
+  return { stream, getStats, clear };
+}
+
+export type AudioCache = ReturnType<typeof createAudioCache>;
+
+let audioCache: AudioCache | null | undefined;
+
+// Returns the shared cache, or null when AUDIO_CACHE_MAX_MB is 0
+export function getAudioCache(): AudioCache | null {
+  if (audioCache !== undefined) return audioCache;
+
+  const { audioCache: config } = getServerConfig();
+  audioCache = config.maxBytes > 0
+    ? createAudioCache({ dir: config.dir, maxBytes: config.maxBytes, storage: getStorageProvider() })
+    : null;
+  return audioCache;
+}
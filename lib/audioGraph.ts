@@ -0,0 +1,134 @@
+import { EQ_BANDS } from '@/lib/equalizer';
+
+// Web Audio processing behind the player's <audio> elements. An element is
+// only routed through the graph once something needs it (a gain other than
+// 1, the equalizer or the visualizer), since from then on it is silent
+// whenever the AudioContext is suspended.
+//
+//   <audio> ─▶ MediaElementSource ─▶ gain (normalization) ─┐
+//   <audio> ─▶ MediaElementSource ─▶ gain (normalization) ─┴▶ equalizer ─▶ analyser ─▶ destination
+
+interface Channel {
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+}
+
+// Gain changes glide over this time constant instead of clicking
+const GAIN_SMOOTHING_S = 0.05;
+
+// Bandwidth of the peaking bands, about an octave
+const EQ_Q = 1.4;
+
+// 128 frequency bins, plenty for a spectrum a few hundred pixels wide
+const ANALYSER_FFT_SIZE = 256;
+
+function createAudioGraph() {
+  let context: AudioContext | null = null;
+  const elements = new Set<HTMLAudioElement>();
+  const channels = new Map<HTMLAudioElement, Channel>();
+  // Built the first time the equalizer is turned on, then kept (flat) so
+  // channels never have to be rewired back
+  let equalizer: BiquadFilterNode[] | null = null;
+  let equalizerOn = false;
+  let analyser: AnalyserNode | null = null;
+  let visualizing = false;
+
+  const getContext = () => {
+    if (!context) {
+      context = new AudioContext();
+      analyser = context.createAnalyser();
+      analyser.fftSize = ANALYSER_FFT_SIZE;
+      analyser.connect(context.destination);
+    }
+    return context;
+  };
+
+  const getAnalyser = (): AnalyserNode => {
+    getContext();
+    return analyser!;
+  };
+
+  const output = (): AudioNode => equalizer?.[0] ?? getAnalyser();
+
+  const connect = (element: HTMLAudioElement): Channel => {
+    let channel = channels.get(element);
+    if (!channel) {
+      const ctx = getContext();
+      const source = ctx.createMediaElementSource(element);
+      const gain = ctx.createGain();
+      source.connect(gain).connect(output());
+      channel = { source, gain };
+      channels.set(element, channel);
+    }
+    return channel;
+  };
+
+  const buildEqualizer = (): BiquadFilterNode[] => {
+    const ctx = getContext();
+    const filters = EQ_BANDS.map((frequency, i) => {
+      const filter = ctx.createBiquadFilter();
+      filter.type = i === 0 ? 'lowshelf' : i === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+      filter.frequency.value = frequency;
+      filter.Q.value = EQ_Q;
+      return filter;
+    });
+    filters.slice(1).forEach((filter, i) => filters[i].connect(filter));
+    filters[filters.length - 1].connect(getAnalyser());
+
+    channels.forEach(({ gain }) => {
+      gain.disconnect();
+      gain.connect(filters[0]);
+    });
+    return filters;
+  };
+
+  return {
+    // Makes an element known to the graph without routing it yet
+    register(element: HTMLAudioElement) {
+      elements.add(element);
+      if (equalizerOn || visualizing) connect(element);
+    },
+
+    setGain(element: HTMLAudioElement, value: number) {
+      if (value === 1 && !channels.has(element)) return;
+      const channel = connect(element);
+      channel.gain.gain.setTargetAtTime(value, getContext().currentTime, GAIN_SMOOTHING_S);
+    },
+
+    // One gain in dB per band of EQ_BANDS, or null to bypass
+    setEqualizer(gains: number[] | null) {
+      equalizerOn = gains !== null;
+      if (!equalizerOn && !equalizer) return;
+
+      if (!equalizer) equalizer = buildEqualizer();
+      const now = getContext().currentTime;
+      equalizer.forEach((filter, i) => {
+        filter.gain.setTargetAtTime(gains?.[i] ?? 0, now, GAIN_SMOOTHING_S);
+      });
+      if (equalizerOn) elements.forEach(connect);
+    },
+
+    // The node everything plays through, for the visualizer to read. Routes
+    // every element through the graph from then on.
+    analyser(): AnalyserNode {
+      visualizing = true;
+      elements.forEach(connect);
+      return getAnalyser();
+    },
+
+    // Browsers start the context suspended until the page has been interacted
+    // with; called before playback starts
+    resume() {
+      if (context?.state === 'suspended') {
+        context.resume().catch(error => console.error('❌ Could not resume audio context:', error));
+      }
+    },
+  };
+}
+
+let graph: ReturnType<typeof createAudioGraph> | null = null;
+
+export function getAudioGraph() {
+  if (!graph) graph = createAudioGraph();
+  return graph;
+}
@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { encodeImage, getCachedImage, getImageVariant, ImageFormat, ImageVariant } from '@/lib/imageVariants';
+
+const BACKGROUND = { r: 31, g: 41, b: 55 }; // tailwind gray-800
+
+// 2x2 mosaic of up to four artwork files, cached under a hash of the cover
+// ids so the collage only changes when the playlist's first covers do.
+export function getPlaylistCollage(coverIds: string[], width: number, format: ImageFormat): Promise<ImageVariant> {
+  const hash = crypto.createHash('sha1').update(coverIds.join(',')).digest('hex');
+
+  return getCachedImage(`collage-${hash}-${width}.${format}`, format, async () => {
+    const tileSize = Math.ceil(width / 2);
+
+    // Tiles come out of the same variant cache as /api/image-proxy
+    const tiles = await Promise.all(
+      coverIds.slice(0, 4).map(id => getImageVariant(id, { width: tileSize, format: 'jpeg' }))
+    );
+
+    const composites = await Promise.all(
+      tiles.map(async (tile, index) => ({
+        input: await sharp(tile.buffer).resize(tileSize, tileSize, { fit: 'cover' }).toBuffer(),
+        left: (index % 2) * tileSize,
+        top: Math.floor(index / 2) * tileSize,
+      }))
+    );
+
+    const canvas = sharp({
+      create: { width: tileSize * 2, height: tileSize * 2, channels: 3, background: BACKGROUND },
+    }).composite(composites);
+
+    return encodeImage(sharp(await canvas.png().toBuffer()).resize(width, width), format);
+  });
+}
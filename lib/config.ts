@@ -0,0 +1,117 @@
+// Server-side configuration, loaded from the environment once and validated
+// up front. Secrets such as the pCloud token live here and must never be
+// imported into client components; see lib/publicConfig.ts for the values
+// that are safe to ship to the browser.
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export type StorageConfig =
+  | { provider: 'pcloud'; pcloudAuthToken: string; pcloudUploadFolderId: number }
+  | { provider: 'local'; localDir: string };
+
+export interface ServerConfig {
+  storage: StorageConfig;
+  linkCache: {
+    ttlMs: number;
+    maxEntries: number;
+  };
+  audioCache: {
+    dir: string;
+    maxBytes: number; // 0 disables the cache
+  };
+  imageCacheDir: string;
+  waveformCacheDir: string;
+  // Bearer token for /api/admin/* routes; those routes are disabled when unset
+  adminToken: string | null;
+  // Service role key for server jobs that write catalog data (loudness
+  // analysis); those jobs are disabled when unset
+  supabaseServiceRoleKey: string | null;
+  // Used for loudness analysis and waveforms
+  ffmpegPath: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+function readEnum<T extends string>(env: Env, key: string, allowed: readonly T[], fallback: T, errors: string[]): T {
+  const value = env[key]?.trim();
+  if (!value) return fallback;
+  if (!(allowed as readonly string[]).includes(value)) {
+    errors.push(`${key} must be one of ${allowed.join(', ')} (got "${value}")`);
+    return fallback;
+  }
+  return value as T;
+}
+
+function readInt(env: Env, key: string, fallback: number, errors: string[], min = 0): number {
+  const value = env[key]?.trim();
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    errors.push(`${key} must be an integer >= ${min} (got "${value}")`);
+    return fallback;
+  }
+  return parsed;
+}
+
+function readRequired(env: Env, key: string, errors: string[], hint?: string): string {
+  const value = env[key]?.trim();
+  if (!value) {
+    errors.push(`${key} is required${hint ? ` ${hint}` : ''}`);
+    return '';
+  }
+  return value;
+}
+
+export function loadServerConfig(env: Env = process.env): ServerConfig {
+  const errors: string[] = [];
+
+  const provider = readEnum(env, 'STORAGE_PROVIDER', ['pcloud', 'local'] as const, 'pcloud', errors);
+  const storage: StorageConfig = provider === 'local'
+    ? { provider, localDir: readRequired(env, 'LOCAL_STORAGE_DIR', errors, 'when STORAGE_PROVIDER=local') }
+    : {
+        provider,
+        pcloudAuthToken: readRequired(env, 'PCLOUD_AUTH_TOKEN', errors, 'when STORAGE_PROVIDER=pcloud'),
+        pcloudUploadFolderId: readInt(env, 'PCLOUD_UPLOAD_FOLDER_ID', 0, errors),
+      };
+
+  const linkCache = {
+    ttlMs: readInt(env, 'LINK_CACHE_TTL_SECONDS', 30 * 60, errors, 1) * 1000,
+    maxEntries: readInt(env, 'LINK_CACHE_MAX_ENTRIES', 1000, errors, 1),
+  };
+
+  const audioCache = {
+    dir: env.AUDIO_CACHE_DIR?.trim() || '.cache/audio',
+    maxBytes: readInt(env, 'AUDIO_CACHE_MAX_MB', 1024, errors) * 1024 * 1024,
+  };
+
+  const imageCacheDir = env.IMAGE_CACHE_DIR?.trim() || '.cache/images';
+  const waveformCacheDir = env.WAVEFORM_CACHE_DIR?.trim() || '.cache/waveforms';
+
+  const adminToken = env.ADMIN_TOKEN?.trim() || null;
+
+  const supabaseServiceRoleKey = env.SUPABASE_SERVICE_ROLE_KEY?.trim() || null;
+  const ffmpegPath = env.FFMPEG_PATH?.trim() || 'ffmpeg';
+
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid server configuration:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return { storage, linkCache, audioCache, imageCacheDir, waveformCacheDir, adminToken, supabaseServiceRoleKey, ffmpegPath };
+}
+
+let cached: ServerConfig | null = null;
+
+export function getServerConfig(): ServerConfig {
+  if (typeof window !== 'undefined') {
+    throw new ConfigError('Server configuration must not be read in the browser');
+  }
+  if (!cached) {
+    cached = loadServerConfig();
+  }
+  return cached;
+}
@@ -0,0 +1,27 @@
+import { EqPreset } from '@/types';
+
+// Centre frequencies of the ten bands, in Hz
+export const EQ_BANDS = [32, 64, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+// Each band boosts or cuts by at most this many dB
+export const EQ_RANGE_DB = 12;
+
+export const FLAT_GAINS = EQ_BANDS.map(() => 0);
+
+export const BUILT_IN_PRESETS: EqPreset[] = [
+  { id: 'flat', name: 'Flat', gains: FLAT_GAINS },
+  { id: 'bass-boost', name: 'Bass boost', gains: [6, 5, 4, 2.5, 1, 0, 0, 0, 0, 0] },
+  { id: 'bass-reducer', name: 'Bass reducer', gains: [-6, -5, -4, -2.5, -1, 0, 0, 0, 0, 0] },
+  { id: 'treble-boost', name: 'Treble boost', gains: [0, 0, 0, 0, 0, 1, 2.5, 4, 5, 6] },
+  { id: 'vocal', name: 'Vocal', gains: [-2, -2, -1, 1, 3.5, 4, 3.5, 2, 0, -1] },
+  { id: 'classical', name: 'Classical', gains: [4, 3, 2, 1, -1, -1, 0, 2, 3, 4] },
+  { id: 'rock', name: 'Rock', gains: [5, 4, 3, 1, -1, -1, 1, 3, 4, 5] },
+  { id: 'pop', name: 'Pop', gains: [-1, 0, 2, 3.5, 4, 3, 1, 0, -1, -1] },
+  { id: 'jazz', name: 'Jazz', gains: [3, 2, 1, 2, -1, -1, 0, 1, 2, 3] },
+  { id: 'electronic', name: 'Electronic', gains: [4.5, 4, 1, 0, -2, 2, 1, 1, 4, 5] },
+];
+
+export const isFlat = (gains: number[]) => gains.every(gain => gain === 0);
+
+// Hz as a band label: 500, 1K, 16K
+export const formatBand = (hz: number) => (hz >= 1000 ? `${hz / 1000}K` : `${hz}`);
@@ -0,0 +1,58 @@
+import { spawn } from 'child_process';
+import { getAudioCache } from '@/lib/audioCache';
+import { getServerConfig } from '@/lib/config';
+import { getStorageProvider } from '@/lib/storage';
+
+export class FfmpegError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FfmpegError';
+  }
+}
+
+// Streams a stored file into ffmpeg, which reads it from stdin; `args` are
+// everything after the input. `onStdout` receives ffmpeg's output as it
+// arrives. Resolves with what ffmpeg logged to stderr.
+export async function runFfmpeg(
+  fileId: string,
+  args: string[],
+  onStdout?: (chunk: Buffer) => void
+): Promise<string> {
+  const { ffmpegPath } = getServerConfig();
+  // Through the disk cache when enabled, so analysis also warms it
+  const source = getAudioCache() ?? getStorageProvider();
+  const upstream = await source.stream(fileId);
+
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(ffmpegPath, ['-hide_banner', '-nostats', '-i', 'pipe:0', ...args]);
+
+    let log = '';
+    ffmpeg.stderr.on('data', (chunk: Buffer) => { log += chunk.toString(); });
+    if (onStdout) {
+      ffmpeg.stdout.on('data', onStdout);
+    } else {
+      ffmpeg.stdout.resume();
+    }
+
+    // ffmpeg may stop reading early (unreadable input); its exit code says why
+    ffmpeg.stdin.on('error', () => {});
+    upstream.body.on('error', error => {
+      ffmpeg.kill();
+      reject(error);
+    });
+    upstream.body.pipe(ffmpeg.stdin);
+
+    ffmpeg.on('error', error => {
+      upstream.body.destroy();
+      reject(new FfmpegError(`Could not run ffmpeg (${ffmpegPath}): ${error.message}`));
+    });
+    ffmpeg.on('close', code => {
+      upstream.body.destroy();
+      if (code !== 0) {
+        reject(new FfmpegError(`ffmpeg exited with code ${code}: ${log.trim().split('\n').pop()}`));
+        return;
+      }
+      resolve(log);
+    });
+  });
+}
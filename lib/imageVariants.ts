@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { getServerConfig } from '@/lib/config';
+import { getStorageProvider, StorageError } from '@/lib/storage';
+
+export type ImageFormat = 'webp' | 'avif' | 'jpeg';
+
+export const IMAGE_FORMATS: readonly ImageFormat[] = ['avif', 'webp', 'jpeg'];
+
+// Requested widths are rounded up to one of these so a handful of variants
+// per image covers every size the UI renders (at 1x and 2x density).
+export const IMAGE_WIDTHS = [48, 96, 160, 224, 320, 448, 640, 960] as const;
+
+const CONTENT_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+};
+
+export interface ImageVariant {
+  buffer: Buffer;
+  contentType: string;
+  etag: string;
+}
+
+export interface VariantOptions {
+  width: number | null; // null keeps the original size
+  format: ImageFormat;
+}
+
+export function snapWidth(requested: number): number {
+  return IMAGE_WIDTHS.find(width => width >= requested) ?? IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+}
+
+// Picks the best format the browser advertises in its Accept header
+export function negotiateFormat(accept: string | undefined): ImageFormat {
+  if (accept?.includes('image/avif')) return 'avif';
+  if (accept?.includes('image/webp')) return 'webp';
+  return 'jpeg';
+}
+
+const toVariant = (buffer: Buffer, format: ImageFormat): ImageVariant => ({
+  buffer,
+  contentType: CONTENT_TYPES[format],
+  etag: `"${crypto.createHash('sha1').update(buffer).digest('hex')}"`,
+});
+
+async function readOriginal(fileId: string): Promise<Buffer> {
+  const { body } = await getStorageProvider().stream(fileId);
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+export function encodeImage(image: sharp.Sharp, format: ImageFormat): Promise<Buffer> {
+  switch (format) {
+    case 'avif':
+      return image.avif({ quality: 50 }).toBuffer();
+    case 'webp':
+      return image.webp({ quality: 75 }).toBuffer();
+    default:
+      return image.jpeg({ quality: 80, mozjpeg: true }).toBuffer();
+  }
+}
+
+export async function renderVariant(source: Buffer, { width, format }: VariantOptions): Promise<Buffer> {
+  let image = sharp(source).rotate(); // honour EXIF orientation
+  if (width) {
+    image = image.resize({ width, height: width, fit: 'cover', withoutEnlargement: true });
+  }
+  return encodeImage(image, format);
+}
+
+const inFlight = new Map<string, Promise<ImageVariant>>();
+
+// Serves `key` from the image disk cache, calling `render` only the first
+// time it is requested. Concurrent requests for the same key share a render.
+export async function getCachedImage(
+  key: string,
+  format: ImageFormat,
+  render: () => Promise<Buffer>
+): Promise<ImageVariant> {
+  const { imageCacheDir } = getServerConfig();
+  const cachePath = path.join(imageCacheDir, key);
+
+  try {
+    return toVariant(await fs.promises.readFile(cachePath), format);
+  } catch {
+    // Not cached yet
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const task = (async () => {
+    const buffer = await render();
+    await fs.promises.mkdir(imageCacheDir, { recursive: true });
+    // Write-then-rename so readers never see a half-written file
+    const tempPath = `${cachePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, buffer);
+    await fs.promises.rename(tempPath, cachePath);
+    return toVariant(buffer, format);
+  })();
+
+  inFlight.set(key, task);
+  try {
+    return await task;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+// Returns the requested variant of an artwork file, rendering it from the
+// storage backend on first use and serving it from the disk cache after that.
+export async function getImageVariant(fileId: string, options: VariantOptions): Promise<ImageVariant> {
+  // Part of the cache file name, so only ids the backend could have issued
+  if (!getStorageProvider().isValidId(fileId)) {
+    throw new StorageError('Invalid file id', 400);
+  }
+  return getCachedImage(
+    `${fileId}-${options.width ?? 'full'}.${options.format}`,
+    options.format,
+    async () => renderVariant(await readOriginal(fileId), options)
+  );
+}
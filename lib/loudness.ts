@@ -0,0 +1,104 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { runFfmpeg } from '@/lib/ffmpeg';
+import { getServiceSupabase } from '@/lib/supabaseServer';
+
+// Loudness analysis for the player's normalization gain. Each song is
+// streamed through ffmpeg's EBU R128 meter, and its integrated loudness and
+// true peak are stored on `songs.loudness_lufs` / `songs.peak_dbfs`.
+
+export class LoudnessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoudnessError';
+  }
+}
+
+export interface LoudnessResult {
+  loudness: number; // integrated loudness, LUFS
+  peak: number; // true peak, dBFS
+}
+
+export interface LoudnessJobResult {
+  analyzed: { fileId: number; loudness: number; peak: number }[];
+  failed: { fileId: number; error: string }[];
+  pending: number;
+}
+
+// Files that failed in this process are left out of later runs so one bad
+// file can't block the rest of the catalog
+const failedIds = new Set<number>();
+
+// The summary ffmpeg prints last; the per-frame lines before it use the same labels
+function parseSummary(output: string): LoudnessResult {
+  const summary = output.slice(output.lastIndexOf('Summary:'));
+  const loudness = Number(summary.match(/I:\s+(-?[\d.]+) LUFS/)?.[1]);
+  const peak = Number(summary.match(/Peak:\s+(-?[\d.]+) dBFS/)?.[1]);
+
+  if (!summary.startsWith('Summary:') || !isFinite(loudness) || !isFinite(peak)) {
+    throw new LoudnessError('No loudness summary in ffmpeg output (silent or unreadable file?)');
+  }
+  return { loudness, peak };
+}
+
+export async function analyzeLoudness(fileId: string): Promise<LoudnessResult> {
+  const output = await runFfmpeg(fileId, ['-filter_complex', 'ebur128=peak=true', '-f', 'null', '-']);
+  return parseSummary(output);
+}
+
+function serviceSupabase(): SupabaseClient {
+  const supabase = getServiceSupabase();
+  if (!supabase) throw new LoudnessError('SUPABASE_SERVICE_ROLE_KEY is not set');
+  return supabase;
+}
+
+async function countSongs(analyzed: boolean): Promise<number> {
+  const query = serviceSupabase().from('songs').select('file_id', { count: 'exact', head: true });
+  const { count, error } = await (analyzed ? query.not('loudness_lufs', 'is', null) : query.is('loudness_lufs', null));
+  if (error) throw error;
+  return count ?? 0;
+}
+
+export async function getLoudnessStatus(): Promise<{ analyzed: number; pending: number }> {
+  return { analyzed: await countSongs(true), pending: await countSongs(false) };
+}
+
+// Analyzes up to `limit` songs without loudness data, one at a time
+export async function runLoudnessJob(limit: number): Promise<LoudnessJobResult> {
+  const supabase = serviceSupabase();
+  let query = supabase
+    .from('songs')
+    .select('file_id')
+    .is('loudness_lufs', null)
+    .order('file_id')
+    .limit(limit);
+  if (failedIds.size > 0) {
+    query = query.not('file_id', 'in', `(${Array.from(failedIds).join(',')})`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const result: LoudnessJobResult = { analyzed: [], failed: [], pending: 0 };
+
+  for (const { file_id: fileId } of data ?? []) {
+    try {
+      const { loudness, peak } = await analyzeLoudness(fileId.toString());
+      const { error: updateError } = await supabase
+        .from('songs')
+        .update({ loudness_lufs: loudness, peak_dbfs: peak })
+        .eq('file_id', fileId);
+      if (updateError) throw updateError;
+
+      result.analyzed.push({ fileId, loudness, peak });
+      console.log(`Loudness of ${fileId}: ${loudness} LUFS, peak ${peak} dBFS`);
+    } catch (error) {
+      failedIds.add(fileId);
+      const message = error instanceof Error ? error.message : String(error);
+      result.failed.push({ fileId, error: message });
+      console.error(`Loudness analysis failed for ${fileId}:`, message);
+    }
+  }
+
+  result.pending = await countSongs(false);
+  return result;
+}
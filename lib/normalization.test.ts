@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { normalizationGain } from '@/lib/normalization';
+import { Song } from '@/types';
+
+const song = (fileId: number, loudness?: number, peak?: number): Song => ({
+  file_id: fileId,
+  img_id: fileId,
+  name: `Song ${fileId}`,
+  artist: 'Artist',
+  language: 'en',
+  tags: [],
+  views: 0,
+  likes: 0,
+  id: String(fileId),
+  image: '',
+  isLiked: false,
+  loudness,
+  peak,
+});
+
+const db = (gain: number) => 20 * Math.log10(gain);
+
+describe('normalizationGain', () => {
+  it('leaves songs alone when off or not analyzed', () => {
+    expect(normalizationGain(song(1, -20), 'off', null)).toBe(1);
+    expect(normalizationGain(song(1), 'track', null)).toBe(1);
+    expect(normalizationGain(song(1), 'playlist', [song(2, -20)])).toBe(1);
+  });
+
+  it('brings a song to the target loudness in track mode', () => {
+    expect(db(normalizationGain(song(1, -20), 'track', null))).toBeCloseTo(6);
+    expect(db(normalizationGain(song(1, -8), 'track', null))).toBeCloseTo(-6);
+  });
+
+  it('stops a boost 1 dB below the true peak', () => {
+    expect(db(normalizationGain(song(1, -20, -3), 'track', null))).toBeCloseTo(2);
+    // Attenuation is never limited
+    expect(db(normalizationGain(song(1, -8, 0), 'track', null))).toBeCloseTo(-6);
+  });
+
+  it('applies one gain to a whole playlist', () => {
+    const quiet = song(1, -20);
+    const loud = song(2, -10);
+    const playlist = [quiet, loud, song(3)];
+    // Energy average of -20 and -10 LUFS, the unanalyzed song left out
+    const average = 10 * Math.log10((Math.pow(10, -2) + Math.pow(10, -1)) / 2);
+
+    expect(db(normalizationGain(quiet, 'playlist', playlist))).toBeCloseTo(-14 - average);
+    expect(db(normalizationGain(loud, 'playlist', playlist))).toBeCloseTo(-14 - average);
+  });
+
+  it('falls back to track mode outside an analyzed playlist', () => {
+    expect(db(normalizationGain(song(1, -20), 'playlist', null))).toBeCloseTo(6);
+    expect(db(normalizationGain(song(1, -20), 'playlist', [song(2), song(3)]))).toBeCloseTo(6);
+  });
+});
@@ -0,0 +1,36 @@
+import { Song } from '@/types';
+
+// `track` brings every song to the same loudness; `playlist` applies one gain
+// to a whole playlist or liked songs, keeping the differences between its songs
+export type NormalizationMode = 'off' | 'track' | 'playlist';
+
+// Loudness songs are normalized to, in LUFS
+export const TARGET_LOUDNESS = -14;
+
+// Boosts never push a song's true peak above this, in dBFS
+const PEAK_CEILING = -1;
+
+const analyzed = (song: Song): song is Song & { loudness: number } =>
+  typeof song.loudness === 'number';
+
+// Energy average of the analyzed songs' loudness
+function averageLoudness(songs: Song[]): number | null {
+  const measured = songs.filter(analyzed);
+  if (measured.length === 0) return null;
+  const energy = measured.reduce((sum, song) => sum + Math.pow(10, song.loudness / 10), 0) / measured.length;
+  return 10 * Math.log10(energy);
+}
+
+// Linear gain for `song`. `collection` is the playlist being played, used in
+// playlist mode; outside one, playlist mode falls back to track mode. Songs
+// that haven't been analyzed play unchanged.
+export function normalizationGain(song: Song, mode: NormalizationMode, collection: Song[] | null): number {
+  if (mode === 'off' || !analyzed(song)) return 1;
+
+  const collectionLoudness = mode === 'playlist' && collection ? averageLoudness(collection) : null;
+  let gainDb = TARGET_LOUDNESS - (collectionLoudness ?? song.loudness);
+  if (typeof song.peak === 'number') {
+    gainDb = Math.min(gainDb, PEAK_CEILING - song.peak);
+  }
+  return Math.pow(10, gainDb / 20);
+}
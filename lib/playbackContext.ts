@@ -0,0 +1,28 @@
+import { PlaybackContext, RecommendationBatch } from '@/types';
+
+const BATCH_NAMES: Record<RecommendationBatch, string> = {
+  'trending': 'Trending Now',
+  'recently-played': 'Recently Played',
+  'made-for-you': 'Made for You',
+  'radio': 'Recommended for You',
+};
+
+// The two lines of the player's "Playing from …" header
+export function describePlaybackContext(context: PlaybackContext | null): { title: string; name: string } {
+  switch (context?.type) {
+    case 'playlist':
+      return { title: 'Playing from playlist', name: context.name };
+    case 'liked':
+      return { title: 'Playing from', name: 'Liked Songs' };
+    case 'search':
+      return { title: 'Playing from search', name: `"${context.query}"` };
+    case 'artist':
+      return { title: 'Playing from artist', name: context.artist };
+    case 'recommendations':
+      return { title: 'Playing from', name: BATCH_NAMES[context.batch] };
+    case 'queue':
+      return { title: 'Playing from', name: 'Your Queue' };
+    default:
+      return { title: 'Now playing', name: '' };
+  }
+}
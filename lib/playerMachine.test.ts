@@ -0,0 +1,328 @@
+import { describe, expect, it } from 'vitest';
+import {
+  initialPlayerState,
+  LISTENED_AFTER_MS,
+  playerReducer,
+  PlayerAction,
+  PlayerState,
+  selectIsConsecutive,
+  selectNextInList,
+  selectPlaybackContext
+} from '@/lib/playerMachine';
+import { PlaybackContext, Song } from '@/types';
+
+const song = (fileId: number): Song => ({
+  file_id: fileId,
+  img_id: fileId,
+  name: `Song ${fileId}`,
+  artist: 'Artist',
+  language: 'en',
+  tags: [],
+  views: 0,
+  likes: 0,
+  id: String(fileId),
+  image: '',
+  isLiked: false,
+});
+
+const [a, b, c, d] = [1, 2, 3, 4].map(song);
+const liked: PlaybackContext = { type: 'liked' };
+
+const reduce = (state: PlayerState, ...actions: PlayerAction[]) => actions.reduce(playerReducer, state);
+
+// Playing `songs[index]` of a collection, loaded and running
+const playing = (songs = [a, b, c], index = 0) =>
+  reduce(
+    initialPlayerState,
+    { type: 'PLAY_COLLECTION', songs, index, context: liked, at: 0 },
+    { type: 'MEDIA_LOADED', duration: 180 }
+  );
+
+describe('PLAY_INDEX', () => {
+  it('starts the song at that index of the list', () => {
+    const state = reduce(playing(), { type: 'PLAY_INDEX', index: 2, at: 1000 });
+
+    expect(state.currentSong).toBe(c);
+    expect(state.currentIndex).toBe(2);
+    expect(state.status).toBe('loading');
+    expect(state.playWhenReady).toBe(true);
+    expect(state.duration).toBe(0);
+    expect(state.songStartedAt).toBe(1000);
+    expect(state.playedIds.has('3')).toBe(true);
+  });
+
+  it('keeps playing when the index holds the current file', () => {
+    const state = reduce(playing(), { type: 'PLAY_INDEX', index: 0, at: 1000 });
+
+    expect(state.status).toBe('playing');
+    expect(state.duration).toBe(180);
+    expect(state.currentTime).toBe(0);
+  });
+
+  it('clears the loop and any error of the previous song', () => {
+    const state = reduce(
+      playing(),
+      { type: 'SET_LOOP', loop: { start: 10, end: 20 } },
+      { type: 'MEDIA_ERROR', message: 'boom' },
+      { type: 'PLAY_INDEX', index: 1, at: 0 }
+    );
+
+    expect(state.loop).toBeNull();
+    expect(state.error).toBeNull();
+  });
+
+  it('ignores an index past the end of the list', () => {
+    const state = playing();
+    expect(playerReducer(state, { type: 'PLAY_INDEX', index: 5, at: 0 })).toBe(state);
+  });
+
+  it('records the previous song as listened once it played long enough', () => {
+    const state = reduce(playing(), { type: 'PLAY_INDEX', index: 1, at: LISTENED_AFTER_MS + 1 });
+    expect(state.batchListened).toEqual([a]);
+
+    const skipped = reduce(playing(), { type: 'PLAY_INDEX', index: 1, at: LISTENED_AFTER_MS });
+    expect(skipped.batchListened).toEqual([]);
+  });
+});
+
+describe('PLAY_QUEUED', () => {
+  it('plays the queued song and then carries on with the collection', () => {
+    const queued = reduce(
+      playing([a, b, c]),
+      { type: 'SET_SHUFFLE', mode: 'smart' },
+      { type: 'SET_REPEAT', mode: 'context' },
+      { type: 'PLAY_QUEUED', song: d, at: 1000 }
+    );
+
+    expect(queued.currentSong).toBe(d);
+    expect(queued.status).toBe('loading');
+    expect(queued.songStartedAt).toBe(1000);
+    expect(queued.personalizedList).toEqual([a, b, c]);
+    expect(queued.originalList).toEqual([a, b, c]);
+    expect(queued.currentIndex).toBe(0);
+    expect(queued.listSource).toBe('collection');
+    expect(selectPlaybackContext(queued)).toEqual({ type: 'queue' });
+    expect(selectNextInList(queued)).toBe(b);
+
+    const resumed = reduce(queued, { type: 'MEDIA_LOADED', duration: 180 }, { type: 'PLAY_INDEX', index: 1, at: 2000 });
+
+    expect(resumed.currentSong).toBe(b);
+    expect(resumed.currentIndex).toBe(1);
+    expect(resumed.fromQueue).toBe(false);
+    expect(resumed.shuffleMode).toBe('smart');
+    expect(resumed.repeatMode).toBe('context');
+    expect(selectPlaybackContext(resumed)).toBe(liked);
+  });
+
+  it('never segues from a queued song into the collection', () => {
+    // `b` follows `a` in the collection, but the queue put `a` on again
+    const state = reduce(playing([a, b, c], 2), { type: 'PLAY_QUEUED', song: a, at: 0 });
+    expect(selectIsConsecutive(state, b)).toBe(false);
+  });
+});
+
+describe('MEDIA_LOADED', () => {
+  it('starts playing a song that should play', () => {
+    const state = reduce(initialPlayerState, { type: 'PLAY_SONG', song: a, context: liked, at: 0 });
+    const loaded = playerReducer(state, { type: 'MEDIA_LOADED', duration: 200 });
+
+    expect(loaded.status).toBe('playing');
+    expect(loaded.duration).toBe(200);
+  });
+
+  it('leaves a restored song paused', () => {
+    const state = reduce(
+      initialPlayerState,
+      { type: 'RESTORE', song: a, context: liked },
+      { type: 'MEDIA_LOADED', duration: 200 }
+    );
+
+    expect(state.status).toBe('paused');
+    expect(state.playWhenReady).toBe(false);
+  });
+
+  it('applies a seek requested before the duration was known', () => {
+    const state = reduce(
+      initialPlayerState,
+      { type: 'RESTORE', song: a, context: liked },
+      { type: 'SEEK', time: 42 },
+      { type: 'MEDIA_LOADED', duration: 200 }
+    );
+
+    expect(state.currentTime).toBe(42);
+    expect(state.pendingSeekTime).toBeNull();
+  });
+
+  it('only updates the duration once loaded', () => {
+    const paused = reduce(playing(), { type: 'PAUSE' });
+    const state = playerReducer(paused, { type: 'MEDIA_LOADED', duration: 190 });
+
+    expect(state.status).toBe('paused');
+    expect(state.duration).toBe(190);
+    expect(playerReducer(state, { type: 'MEDIA_LOADED', duration: 190 })).toBe(state);
+  });
+
+  it('treats an unknown (streaming) duration as 0', () => {
+    const state = reduce(
+      initialPlayerState,
+      { type: 'PLAY_SONG', song: a, context: liked, at: 0 },
+      { type: 'MEDIA_LOADED', duration: Infinity }
+    );
+    expect(state.duration).toBe(0);
+  });
+});
+
+describe('MEDIA_PAUSED', () => {
+  it('pauses a playing song and stops wanting to play', () => {
+    const state = playerReducer(playing(), { type: 'MEDIA_PAUSED' });
+
+    expect(state.status).toBe('paused');
+    expect(state.playWhenReady).toBe(false);
+  });
+
+  it('pauses a buffering song', () => {
+    const state = reduce(playing(), { type: 'MEDIA_WAITING' }, { type: 'MEDIA_PAUSED' });
+    expect(state.status).toBe('paused');
+  });
+
+  it('is ignored while the next song loads', () => {
+    const state = reduce(playing(), { type: 'PLAY_INDEX', index: 1, at: 0 });
+    expect(playerReducer(state, { type: 'MEDIA_PAUSED' })).toBe(state);
+  });
+});
+
+describe('MEDIA_ENDED', () => {
+  it('stops at the end of the song', () => {
+    const state = playerReducer(playing(), { type: 'MEDIA_ENDED', at: LISTENED_AFTER_MS + 1 });
+
+    expect(state.status).toBe('paused');
+    expect(state.playWhenReady).toBe(false);
+    expect(state.currentTime).toBe(180);
+    expect(state.songStartedAt).toBeNull();
+    expect(state.batchListened).toEqual([a]);
+  });
+
+  it('is followed by the next list song with repeat off', () => {
+    const state = playerReducer(playing(), { type: 'MEDIA_ENDED', at: 0 });
+    expect(selectNextInList(state)).toBe(b);
+
+    const last = playerReducer(playing([a, b, c], 2), { type: 'MEDIA_ENDED', at: 0 });
+    expect(selectNextInList(last)).toBeNull();
+  });
+
+  it('goes back to the start of the list with repeat context', () => {
+    const state = reduce(
+      playing([a, b, c], 2),
+      { type: 'SET_REPEAT', mode: 'context' },
+      { type: 'MEDIA_ENDED', at: 0 }
+    );
+    expect(selectNextInList(state)).toBe(a);
+  });
+
+  it('leaves the next pass of a shuffled collection on repeat context open', () => {
+    const state = reduce(
+      playing([a, b, c], 2),
+      { type: 'SET_SHUFFLE', mode: 'on' },
+      { type: 'SET_REPEAT', mode: 'context' },
+      { type: 'MEDIA_ENDED', at: 0 }
+    );
+    expect(selectNextInList(state)).toBeNull();
+  });
+
+  it('has no next list song with repeat track', () => {
+    const state = reduce(
+      playing(),
+      { type: 'SET_REPEAT', mode: 'track' },
+      { type: 'MEDIA_ENDED', at: 0 }
+    );
+    expect(selectNextInList(state)).toBeNull();
+
+    const replayed = playerReducer(state, { type: 'REPLAY', at: 5000 });
+    expect(replayed.status).toBe('playing');
+    expect(replayed.playWhenReady).toBe(true);
+    expect(replayed.currentTime).toBe(0);
+    expect(replayed.songStartedAt).toBe(5000);
+  });
+});
+
+describe('SET_SHUFFLE', () => {
+  it('replaces the songs after the current one with the shuffled order', () => {
+    const state = playerReducer(playing([a, b, c, d], 1), { type: 'SET_SHUFFLE', mode: 'on', upcoming: [d, c] });
+
+    expect(state.shuffleMode).toBe('on');
+    expect(state.personalizedList).toEqual([a, b, d, c]);
+    expect(state.currentIndex).toBe(1);
+    expect(state.originalList).toEqual([a, b, c, d]);
+  });
+
+  it('only changes the mode without a new order', () => {
+    const state = playerReducer(playing(), { type: 'SET_SHUFFLE', mode: 'smart' });
+
+    expect(state.shuffleMode).toBe('smart');
+    expect(state.personalizedList).toEqual([a, b, c]);
+  });
+
+  it('restores the original order from the current song when turned off', () => {
+    const state = reduce(
+      initialPlayerState,
+      { type: 'PLAY_COLLECTION', songs: [a, b, c, d], index: 2, context: liked, upcoming: [a, d, b], at: 0 },
+      { type: 'MEDIA_LOADED', duration: 180 },
+      { type: 'PLAY_INDEX', index: 1, at: 0 },
+      { type: 'SET_SHUFFLE', mode: 'off' }
+    );
+
+    expect(state.shuffleMode).toBe('off');
+    expect(state.currentSong).toBe(a);
+    expect(state.personalizedList).toEqual([a, b, c, d]);
+    expect(state.currentIndex).toBe(0);
+  });
+});
+
+describe('errors', () => {
+  it('moves to error and keeps the song', () => {
+    const state = playerReducer(playing(), { type: 'MEDIA_ERROR', message: 'Network error' });
+
+    expect(state.status).toBe('error');
+    expect(state.error).toBe('Network error');
+    expect(state.currentSong).toBe(a);
+  });
+
+  it('ignores errors without a song', () => {
+    expect(playerReducer(initialPlayerState, { type: 'MEDIA_ERROR', message: 'x' })).toBe(initialPlayerState);
+  });
+
+  it('reloads on PLAY after an error', () => {
+    const state = reduce(playing(), { type: 'MEDIA_ERROR', message: 'x' }, { type: 'PLAY' });
+
+    expect(state.status).toBe('loading');
+    expect(state.playWhenReady).toBe(true);
+    expect(state.error).toBeNull();
+  });
+
+  it('retries at the given position', () => {
+    const state = reduce(
+      playing(),
+      { type: 'PAUSE' },
+      { type: 'MEDIA_ERROR', message: 'x' },
+      { type: 'MEDIA_RETRY', time: 61 },
+      { type: 'MEDIA_LOADED', duration: 180 }
+    );
+
+    expect(state.status).toBe('playing');
+    expect(state.currentTime).toBe(61);
+    expect(state.error).toBeNull();
+  });
+
+  it('reloads a song replayed after an error', () => {
+    const state = reduce(playing(), { type: 'MEDIA_ERROR', message: 'x' }, { type: 'REPLAY', at: 0 });
+    expect(state.status).toBe('loading');
+  });
+
+  it('clears the error on STOP', () => {
+    const state = reduce(playing(), { type: 'MEDIA_ERROR', message: 'x' }, { type: 'STOP' });
+
+    expect(state.status).toBe('idle');
+    expect(state.error).toBeNull();
+    expect(state.currentSong).toBeNull();
+  });
+});
@@ -0,0 +1,469 @@
+import { restoreOrder } from '@/lib/shuffle';
+import { PlaybackContext, Song } from '@/types';
+
+// Playback state machine. The reducer is pure: hooks/usePlayer.ts owns the
+// <audio> element and the recommendation fetching, and turns user intent and
+// media events into the actions below.
+//
+//   idle ─PLAY_SONG/RESTORE─▶ loading ─MEDIA_LOADED─▶ playing ◀─PLAY/PAUSE─▶ paused
+//                               ▲                      │    ▲
+//                               │           MEDIA_WAITING  MEDIA_PLAYING
+//                               │                      ▼    │
+//                               │                     buffering
+//                          PLAY (retry)
+//                               │
+//                             error ◀─MEDIA_ERROR─ any state with a song
+//
+// STOP returns to idle from anywhere.
+
+export type PlayerStatus = 'idle' | 'loading' | 'playing' | 'paused' | 'buffering' | 'error';
+// `context` loops the playlist or list being played, `track` the current song
+export type RepeatMode = 'off' | 'context' | 'track';
+// `smart` also mixes recommendations into a shuffled collection
+export type ShuffleMode = 'off' | 'on' | 'smart';
+// What the personalized list holds: recommendations around a picked song, or
+// a collection (playlist, liked songs) the user asked to play
+export type ListSource = 'recommendations' | 'collection';
+
+export interface LoopRange {
+  start: number;
+  end: number;
+}
+
+export interface PlayerState {
+  status: PlayerStatus;
+  // Whether audio should be coming out once it can; decides where `loading`
+  // ends up and is what the play/pause buttons show
+  playWhenReady: boolean;
+  currentSong: Song | null;
+  // Play order walked through by next/previous once the queue is empty:
+  // the song the user picked followed by its recommendations, or a collection
+  personalizedList: Song[];
+  currentIndex: number;
+  // The same songs in their own order, restored when shuffle is turned off
+  originalList: Song[];
+  listSource: ListSource;
+  // Where the list was started from
+  listContext: PlaybackContext | null;
+  // The current song came from the queue; the list is still at currentIndex
+  // and carries on after it
+  fromQueue: boolean;
+  currentTime: number;
+  duration: number;
+  // Seek requested before the duration was known, applied on MEDIA_LOADED
+  pendingSeekTime: number | null;
+  volume: number;
+  // Speed for every song, unless the current one has its own (long tracks
+  // remember theirs, see usePlayer's speedMemory)
+  playbackRate: number;
+  songPlaybackRate: number | null;
+  // Keep the pitch when playing faster or slower
+  preservesPitch: boolean;
+  // A–B loop within the current song, in seconds
+  loop: LoopRange | null;
+  shuffleMode: ShuffleMode;
+  repeatMode: RepeatMode;
+  error: string | null;
+  // file_ids started this session, never recommended again
+  playedIds: Set<string>;
+  // Songs of the current batch listened to for longer than LISTENED_AFTER_MS,
+  // which seed the next round of smart recommendations
+  batchListened: Song[];
+  songStartedAt: number | null;
+}
+
+export type PlayerAction =
+  // Start a song from the beginning, as a new personalized list of one
+  | { type: 'PLAY_SONG'; song: Song; context: PlaybackContext; at: number }
+  // Play `songs[index]` of a collection; `upcoming` is the shuffled rest
+  | { type: 'PLAY_COLLECTION'; songs: Song[]; index: number; context: PlaybackContext; upcoming?: Song[]; at: number }
+  // Start the song at `index` of the personalized list
+  | { type: 'PLAY_INDEX'; index: number; at: number }
+  // Play a song taken from the queue, leaving the list where it is
+  | { type: 'PLAY_QUEUED'; song: Song; at: number }
+  // Load a song without playing it (the last played song after login),
+  // optionally as `list[index]` of a saved list
+  | { type: 'RESTORE'; song: Song; context: PlaybackContext; list?: Song[]; index?: number; listSource?: ListSource }
+  // Replace the recommendations; ignored unless they follow the current song
+  // and no collection has started since
+  | { type: 'SET_LIST'; songs: Song[] }
+  // Add recommendations to the end of the personalized list
+  | { type: 'APPEND_TO_LIST'; songs: Song[] }
+  | { type: 'PLAY' }
+  | { type: 'PAUSE' }
+  | { type: 'STOP' }
+  // Restart the current song (repeat track)
+  | { type: 'REPLAY'; at: number }
+  | { type: 'SEEK'; time: number }
+  | { type: 'SET_VOLUME'; volume: number }
+  // `forSong` sets the speed of the current song only
+  | { type: 'SET_PLAYBACK_RATE'; rate: number; forSong: boolean }
+  | { type: 'SET_PRESERVES_PITCH'; preservesPitch: boolean }
+  // Ignored for loops shorter than MIN_LOOP_SECONDS
+  | { type: 'SET_LOOP'; loop: LoopRange | null }
+  // Turning shuffle on replaces everything after the current song with
+  // `upcoming`; turning it off restores the original order
+  | { type: 'SET_SHUFFLE'; mode: ShuffleMode; upcoming?: Song[] }
+  | { type: 'SET_REPEAT'; mode: RepeatMode }
+  // Swap in a newer copy of a song (e.g. after liking it)
+  | { type: 'UPDATE_SONG'; song: Song }
+  // Events reported by the audio element
+  | { type: 'MEDIA_LOADED'; duration: number }
+  | { type: 'MEDIA_TIME'; time: number }
+  | { type: 'MEDIA_WAITING' }
+  | { type: 'MEDIA_PLAYING' }
+  | { type: 'MEDIA_PAUSED' }
+  | { type: 'MEDIA_ENDED'; at: number }
+  | { type: 'MEDIA_ERROR'; message: string }
+  // Reload the current song after an error or stall and continue at `time`
+  | { type: 'MEDIA_RETRY'; time: number };
+
+export const LISTENED_AFTER_MS = 20_000;
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+const MIN_PLAYBACK_RATE = 0.75;
+const MAX_PLAYBACK_RATE = 2;
+
+export const MIN_LOOP_SECONDS = 1;
+
+// Time updates closer than this to the current value are dropped to save renders
+const TIME_UPDATE_STEP = 0.25;
+
+export const initialPlayerState: PlayerState = {
+  status: 'idle',
+  playWhenReady: false,
+  currentSong: null,
+  personalizedList: [],
+  currentIndex: 0,
+  originalList: [],
+  listSource: 'recommendations',
+  listContext: null,
+  fromQueue: false,
+  currentTime: 0,
+  duration: 0,
+  pendingSeekTime: null,
+  volume: 1,
+  playbackRate: 1,
+  songPlaybackRate: null,
+  preservesPitch: true,
+  loop: null,
+  shuffleMode: 'off',
+  repeatMode: 'off',
+  error: null,
+  playedIds: new Set(),
+  batchListened: [],
+  songStartedAt: null,
+};
+
+export function selectIsPlaying(state: PlayerState): boolean {
+  return state.playWhenReady && state.status !== 'idle' && state.status !== 'error';
+}
+
+export function selectPlaybackRate(state: PlayerState): number {
+  return state.songPlaybackRate ?? state.playbackRate;
+}
+
+// Where the current song is playing from. Past the song the user picked, a
+// recommendations list is the player's own radio rather than its source.
+export function selectPlaybackContext(state: PlayerState): PlaybackContext | null {
+  if (state.fromQueue) return { type: 'queue' };
+  if (state.listSource === 'recommendations' && state.currentIndex > 0) {
+    return { type: 'recommendations', batch: 'radio' };
+  }
+  return state.listContext;
+}
+
+// Songs that follow the current one in play order
+export function selectUpcoming(state: PlayerState): Song[] {
+  return state.personalizedList.slice(state.currentIndex + 1);
+}
+
+// The list song that follows the current one when it ends, if that's known
+// ahead of time: not for repeat track, a fresh batch of recommendations or a
+// collection reshuffled for another pass
+export function selectNextInList(state: PlayerState): Song | null {
+  if (!state.currentSong || state.repeatMode === 'track') return null;
+
+  const next = state.personalizedList[state.currentIndex + 1];
+  if (next) return next;
+
+  if (state.repeatMode === 'context' && (state.listSource !== 'collection' || state.shuffleMode === 'off')) {
+    return state.personalizedList[0] ?? null;
+  }
+  return null;
+}
+
+// Whether `next` directly follows the current song in the playlist or liked
+// songs being played, as when an album's tracks segue into each other
+export function selectIsConsecutive(state: PlayerState, next: Song): boolean {
+  if (state.listSource !== 'collection' || !state.currentSong || state.fromQueue) return false;
+  const position = state.originalList.findIndex(song => song.file_id === state.currentSong?.file_id);
+  return position !== -1 && state.originalList[position + 1]?.file_id === next.file_id;
+}
+
+// Adds the current song to the listened batch if it played long enough
+function recordListen(state: PlayerState, at: number): Song[] {
+  const { currentSong, songStartedAt, batchListened } = state;
+  if (!currentSong || songStartedAt === null || at - songStartedAt <= LISTENED_AFTER_MS) {
+    return batchListened;
+  }
+  if (batchListened.some(song => song.file_id === currentSong.file_id)) {
+    return batchListened;
+  }
+  return [...batchListened, currentSong];
+}
+
+function startSong(state: PlayerState, song: Song, at: number, list: Song[], index: number): PlayerState {
+  // The same file keeps its source, so no new metadata event will arrive
+  const sameSource = state.currentSong?.file_id === song.file_id && state.duration > 0;
+
+  return {
+    ...state,
+    status: sameSource ? 'playing' : 'loading',
+    playWhenReady: true,
+    currentSong: song,
+    personalizedList: list,
+    currentIndex: index,
+    fromQueue: false,
+    currentTime: 0,
+    duration: sameSource ? state.duration : 0,
+    pendingSeekTime: null,
+    songPlaybackRate: sameSource ? state.songPlaybackRate : null,
+    loop: null,
+    error: null,
+    playedIds: new Set(state.playedIds).add(song.file_id.toString()),
+    batchListened: recordListen(state, at),
+    songStartedAt: at,
+  };
+}
+
+export function playerReducer(state: PlayerState, action: PlayerAction): PlayerState {
+  switch (action.type) {
+    case 'PLAY_SONG':
+      return {
+        ...startSong(state, action.song, action.at, [action.song], 0),
+        originalList: [action.song],
+        listSource: 'recommendations',
+        listContext: action.context,
+      };
+
+    case 'PLAY_COLLECTION': {
+      const song = action.songs[action.index];
+      if (!song) return state;
+      const started = action.upcoming
+        ? startSong(state, song, action.at, [song, ...action.upcoming], 0)
+        : startSong(state, song, action.at, action.songs, action.index);
+      return { ...started, originalList: action.songs, listSource: 'collection', listContext: action.context };
+    }
+
+    case 'PLAY_INDEX': {
+      const song = state.personalizedList[action.index];
+      if (!song) return state;
+      return startSong(state, song, action.at, state.personalizedList, action.index);
+    }
+
+    case 'PLAY_QUEUED':
+      return {
+        ...startSong(state, action.song, action.at, state.personalizedList, state.currentIndex),
+        fromQueue: true,
+      };
+
+    case 'RESTORE':
+      if (state.currentSong) return state;
+      return {
+        ...state,
+        status: 'loading',
+        playWhenReady: false,
+        currentSong: action.song,
+        personalizedList: action.list ?? [action.song],
+        currentIndex: action.index ?? 0,
+        originalList: action.list ?? [action.song],
+        listSource: action.listSource ?? 'recommendations',
+        listContext: action.context,
+        fromQueue: false,
+        songPlaybackRate: null,
+        loop: null,
+        playedIds: new Set(state.playedIds).add(action.song.file_id.toString()),
+      };
+
+    case 'SET_LIST':
+      if (
+        !state.currentSong ||
+        state.listSource !== 'recommendations' ||
+        action.songs[0]?.file_id !== state.currentSong.file_id
+      ) {
+        return state;
+      }
+      return {
+        ...state,
+        personalizedList: action.songs,
+        currentIndex: 0,
+        originalList: action.songs,
+        listSource: 'recommendations',
+        batchListened: [],
+      };
+
+    case 'APPEND_TO_LIST': {
+      const songs = action.songs.filter(
+        song => !state.personalizedList.some(existing => existing.file_id === song.file_id)
+      );
+      if (songs.length === 0) return state;
+      return {
+        ...state,
+        personalizedList: [...state.personalizedList, ...songs],
+        originalList: [...state.originalList, ...songs],
+      };
+    }
+
+    case 'PLAY':
+      switch (state.status) {
+        case 'idle':
+          return state;
+        case 'error':
+          return { ...state, status: 'loading', playWhenReady: true, error: null };
+        case 'paused':
+          return { ...state, status: 'playing', playWhenReady: true };
+        default:
+          return { ...state, playWhenReady: true };
+      }
+
+    case 'PAUSE':
+      if (state.status === 'playing' || state.status === 'buffering') {
+        return { ...state, status: 'paused', playWhenReady: false };
+      }
+      return { ...state, playWhenReady: false };
+
+    case 'STOP':
+      return {
+        ...state,
+        status: 'idle',
+        playWhenReady: false,
+        currentSong: null,
+        fromQueue: false,
+        currentTime: 0,
+        duration: 0,
+        pendingSeekTime: null,
+        songPlaybackRate: null,
+        loop: null,
+        error: null,
+        songStartedAt: null,
+      };
+
+    case 'REPLAY':
+      if (!state.currentSong) return state;
+      return {
+        ...state,
+        status: state.status === 'error' ? 'loading' : 'playing',
+        playWhenReady: true,
+        currentTime: 0,
+        songStartedAt: action.at,
+      };
+
+    case 'SEEK':
+      if (!state.currentSong) return state;
+      if (state.duration > 0) {
+        return { ...state, currentTime: action.time, pendingSeekTime: null };
+      }
+      return { ...state, pendingSeekTime: action.time };
+
+    case 'SET_VOLUME':
+      return { ...state, volume: Math.min(1, Math.max(0, action.volume)) };
+
+    case 'SET_PLAYBACK_RATE': {
+      const rate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, action.rate));
+      if (action.forSong) {
+        return state.currentSong ? { ...state, songPlaybackRate: rate } : state;
+      }
+      return { ...state, playbackRate: rate, songPlaybackRate: null };
+    }
+
+    case 'SET_PRESERVES_PITCH':
+      return { ...state, preservesPitch: action.preservesPitch };
+
+    case 'SET_LOOP': {
+      const { loop } = action;
+      if (loop && (!state.currentSong || loop.start < 0 || loop.end - loop.start < MIN_LOOP_SECONDS)) return state;
+      return { ...state, loop };
+    }
+
+    case 'SET_SHUFFLE': {
+      if (action.mode === 'off') {
+        const { list, index } = restoreOrder(state.originalList, state.personalizedList, state.currentIndex);
+        return { ...state, shuffleMode: 'off', personalizedList: list, currentIndex: index };
+      }
+      if (!action.upcoming) {
+        return { ...state, shuffleMode: action.mode };
+      }
+      return {
+        ...state,
+        shuffleMode: action.mode,
+        personalizedList: [...state.personalizedList.slice(0, state.currentIndex + 1), ...action.upcoming],
+      };
+    }
+
+    case 'SET_REPEAT':
+      return { ...state, repeatMode: action.mode };
+
+    case 'UPDATE_SONG': {
+      const replace = (song: Song) => (song.id === action.song.id ? action.song : song);
+      return {
+        ...state,
+        currentSong: state.currentSong && replace(state.currentSong),
+        personalizedList: state.personalizedList.map(replace),
+        originalList: state.originalList.map(replace),
+      };
+    }
+
+    case 'MEDIA_LOADED': {
+      const duration = isFinite(action.duration) ? action.duration : 0;
+      if (state.status !== 'loading') {
+        return duration === state.duration ? state : { ...state, duration };
+      }
+      return {
+        ...state,
+        status: state.playWhenReady ? 'playing' : 'paused',
+        duration,
+        currentTime: state.pendingSeekTime ?? 0,
+        pendingSeekTime: null,
+      };
+    }
+
+    case 'MEDIA_TIME':
+      if (Math.abs(state.currentTime - action.time) <= TIME_UPDATE_STEP) return state;
+      return { ...state, currentTime: action.time };
+
+    case 'MEDIA_WAITING':
+      return state.status === 'playing' ? { ...state, status: 'buffering' } : state;
+
+    case 'MEDIA_PLAYING':
+      return state.status === 'buffering' ? { ...state, status: 'playing' } : state;
+
+    case 'MEDIA_PAUSED':
+      // Paused from outside the app (OS media controls, headphones unplugged)
+      if (state.status === 'playing' || state.status === 'buffering') {
+        return { ...state, status: 'paused', playWhenReady: false };
+      }
+      return state;
+
+    case 'MEDIA_ENDED':
+      return {
+        ...state,
+        status: 'paused',
+        playWhenReady: false,
+        currentTime: state.duration,
+        batchListened: recordListen(state, action.at),
+        songStartedAt: null,
+      };
+
+    case 'MEDIA_ERROR':
+      if (!state.currentSong) return state;
+      return { ...state, status: 'error', error: action.message };
+
+    case 'MEDIA_RETRY':
+      if (!state.currentSong) return state;
+      return { ...state, status: 'loading', playWhenReady: true, error: null, pendingSeekTime: action.time };
+
+    default:
+      return state;
+  }
+}
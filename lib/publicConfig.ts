@@ -0,0 +1,15 @@
+// Configuration that is inlined into the client bundle. Only NEXT_PUBLIC_*
+// variables belong here, and each must be referenced literally so Next.js
+// can substitute it at build time.
+
+function required(key: string, value: string | undefined): string {
+  if (!value) {
+    throw new Error(`${key} is not set. Copy .env.example to .env.local and fill it in.`);
+  }
+  return value;
+}
+
+export const publicConfig = {
+  supabaseUrl: required('NEXT_PUBLIC_SUPABASE_URL', process.env.NEXT_PUBLIC_SUPABASE_URL),
+  supabaseAnonKey: required('NEXT_PUBLIC_SUPABASE_ANON_KEY', process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY),
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { initialPlayerState, playerReducer } from '@/lib/playerMachine';
+import { newerSnapshot, QueueSnapshot, resolveSnapshot, takeSnapshot } from '@/lib/queueSnapshot';
+import { PlaybackContext, Song } from '@/types';
+
+const song = (fileId: number): Song => ({
+  file_id: fileId,
+  img_id: fileId,
+  name: `Song ${fileId}`,
+  artist: 'Artist',
+  language: 'en',
+  tags: [],
+  views: 0,
+  likes: 0,
+  id: String(fileId),
+  image: '',
+  isLiked: false,
+});
+
+const [a, b, c, d] = [1, 2, 3, 4].map(song);
+const liked: PlaybackContext = { type: 'liked' };
+
+const snapshot = (overrides: Partial<QueueSnapshot> = {}): QueueSnapshot => ({
+  queue: [4],
+  list: [1, 2, 3],
+  index: 1,
+  listSource: 'collection',
+  context: liked,
+  savedAt: 1000,
+  ...overrides,
+});
+
+describe('takeSnapshot', () => {
+  it('is null when nothing is playing', () => {
+    expect(takeSnapshot(initialPlayerState, [d])).toBeNull();
+  });
+
+  it('stores the queue and list by file id', () => {
+    const state = playerReducer(initialPlayerState, {
+      type: 'PLAY_COLLECTION', songs: [a, b, c], index: 1, context: liked, at: 0,
+    });
+
+    expect(takeSnapshot(state, [d])).toMatchObject({
+      queue: [4],
+      list: [1, 2, 3],
+      index: 1,
+      listSource: state.listSource,
+      context: liked,
+    });
+  });
+});
+
+describe('newerSnapshot', () => {
+  it('picks the most recently saved one', () => {
+    const older = snapshot({ savedAt: 1000 });
+    const newer = snapshot({ savedAt: 2000 });
+
+    expect(newerSnapshot(older, newer)).toBe(newer);
+    expect(newerSnapshot(newer, older)).toBe(newer);
+  });
+
+  it('takes whichever exists', () => {
+    const saved = snapshot();
+    expect(newerSnapshot(null, saved)).toBe(saved);
+    expect(newerSnapshot(saved, null)).toBe(saved);
+    expect(newerSnapshot(null, null)).toBeNull();
+  });
+});
+
+describe('resolveSnapshot', () => {
+  it('looks the songs up in the catalog', () => {
+    expect(resolveSnapshot(snapshot(), [a, b, c, d])).toEqual({
+      queue: [d],
+      list: [a, b, c],
+      index: 1,
+      listSource: 'collection',
+      context: liked,
+    });
+  });
+
+  it('drops songs no longer in the catalog and keeps the current one current', () => {
+    const resolved = resolveSnapshot(snapshot({ list: [1, 2, 3], index: 2 }), [b, c]);
+
+    expect(resolved?.list).toEqual([b, c]);
+    expect(resolved?.index).toBe(1);
+    expect(resolved?.queue).toEqual([]);
+  });
+
+  it('is null when the current song is gone', () => {
+    expect(resolveSnapshot(snapshot(), [a, c, d])).toBeNull();
+  });
+});
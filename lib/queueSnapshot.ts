@@ -0,0 +1,74 @@
+import { ListSource, PlayerState } from '@/lib/playerMachine';
+import { PlaybackContext, Song } from '@/types';
+
+// What the player saves so a reload, or another device, can pick up the same
+// queue and list. Songs are stored by file_id and looked up in the catalog
+// again on restore.
+export interface QueueSnapshot {
+  queue: number[];
+  // The personalized list and the current song's index in it
+  list: number[];
+  index: number;
+  listSource: ListSource;
+  context: PlaybackContext | null;
+  savedAt: number; // ms since epoch
+}
+
+// A snapshot with its songs found in the catalog
+export interface SavedQueue {
+  queue: Song[];
+  list: Song[];
+  index: number;
+  listSource: ListSource;
+  context: PlaybackContext | null;
+}
+
+const storageKey = (userId: string) => `playerQueue:${userId}`;
+
+// Null when nothing is playing, so an empty player never overwrites a saved queue
+export function takeSnapshot(state: PlayerState, queue: Song[]): QueueSnapshot | null {
+  if (!state.currentSong) return null;
+  return {
+    queue: queue.map(song => song.file_id),
+    list: state.personalizedList.map(song => song.file_id),
+    index: state.currentIndex,
+    listSource: state.listSource,
+    context: state.listContext,
+    savedAt: Date.now(),
+  };
+}
+
+export function readLocalSnapshot(userId: string): QueueSnapshot | null {
+  try {
+    const saved = localStorage.getItem(storageKey(userId));
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('❌ Error reading saved queue:', error);
+    return null;
+  }
+}
+
+export function writeLocalSnapshot(userId: string, snapshot: QueueSnapshot) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(snapshot));
+}
+
+export function newerSnapshot(a: QueueSnapshot | null, b: QueueSnapshot | null): QueueSnapshot | null {
+  if (!a || !b) return a ?? b;
+  return a.savedAt >= b.savedAt ? a : b;
+}
+
+// Songs removed from the catalog since are dropped; null if the current one was
+export function resolveSnapshot(snapshot: QueueSnapshot, songs: Song[]): SavedQueue | null {
+  const byFileId = new Map(songs.map(song => [song.file_id, song]));
+  const current = byFileId.get(snapshot.list[snapshot.index]);
+  if (!current) return null;
+
+  const list = snapshot.list.map(fileId => byFileId.get(fileId)).filter((song): song is Song => !!song);
+  return {
+    queue: snapshot.queue.map(fileId => byFileId.get(fileId)).filter((song): song is Song => !!song),
+    list,
+    index: list.indexOf(current),
+    listSource: snapshot.listSource,
+    context: snapshot.context,
+  };
+}
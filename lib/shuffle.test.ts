@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { interleave, restoreOrder, shuffle } from '@/lib/shuffle';
+import { Song } from '@/types';
+
+const song = (fileId: number): Song => ({
+  file_id: fileId,
+  img_id: fileId,
+  name: `Song ${fileId}`,
+  artist: 'Artist',
+  language: 'en',
+  tags: [],
+  views: 0,
+  likes: 0,
+  id: String(fileId),
+  image: '',
+  isLiked: false,
+});
+
+const [a, b, c, d, e] = [1, 2, 3, 4, 5].map(song);
+const [x, y] = [101, 102].map(song);
+
+describe('shuffle', () => {
+  it('returns every item once without touching the input', () => {
+    const items = [1, 2, 3, 4, 5, 6];
+    const result = shuffle(items);
+
+    expect(result).not.toBe(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+    expect([...result].sort()).toEqual(items);
+  });
+
+  it('swaps each position with the one the random source picks', () => {
+    // Always picking index 0 rotates the first item to the end
+    expect(shuffle([1, 2, 3, 4], () => 0)).toEqual([2, 3, 4, 1]);
+    // Always picking the position itself keeps the order
+    expect(shuffle([1, 2, 3, 4], () => 0.999)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('interleave', () => {
+  it('slots an extra in after every few songs', () => {
+    expect(interleave([a, b, c, d, e], [x, y], 2)).toEqual([a, b, x, c, d, y, e]);
+  });
+
+  it('stops once the extras run out', () => {
+    expect(interleave([a, b, c, d], [x], 1)).toEqual([a, x, b, c, d]);
+  });
+
+  it('adds nothing after a list shorter than the interval', () => {
+    expect(interleave([a, b], [x], 3)).toEqual([a, b]);
+  });
+});
+
+describe('restoreOrder', () => {
+  const original = [a, b, c, d, e];
+
+  it('continues from the current song in the original order', () => {
+    expect(restoreOrder(original, [c, e, a, d, b], 2)).toEqual({ list: original, index: 0 });
+    expect(restoreOrder(original, [c, e, a, d, b], 1)).toEqual({ list: original, index: 4 });
+  });
+
+  it('keeps a recommendation current after the last original song played', () => {
+    expect(restoreOrder(original, [c, x, b, a], 1)).toEqual({ list: [a, b, c, x, d, e], index: 3 });
+  });
+
+  it('looks past earlier recommendations for that song', () => {
+    expect(restoreOrder(original, [b, x, y], 2)).toEqual({ list: [a, b, y, c, d, e], index: 2 });
+  });
+
+  it('puts a recommendation first when no original song was played', () => {
+    expect(restoreOrder(original, [x, a], 0)).toEqual({ list: [x, a, b, c, d, e], index: 0 });
+  });
+
+  it('falls back to the start without a current song', () => {
+    expect(restoreOrder(original, [], 0)).toEqual({ list: original, index: 0 });
+  });
+});
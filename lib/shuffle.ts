@@ -0,0 +1,60 @@
+import { Song } from '@/types';
+
+// Fisher–Yates on a copy: every ordering is equally likely and each item
+// appears exactly once, so a shuffled pass never repeats a song.
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = items.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Slots `extras` in after every `every` songs, e.g. smart shuffle's
+// recommendations between the songs of a playlist
+export function interleave(songs: Song[], extras: Song[], every: number): Song[] {
+  const result: Song[] = [];
+  let extra = 0;
+
+  songs.forEach((song, i) => {
+    result.push(song);
+    if ((i + 1) % every === 0 && extra < extras.length) {
+      result.push(extras[extra++]);
+    }
+  });
+
+  return result;
+}
+
+// Un-shuffles a play order back to `original`, continuing from where playback
+// is now. A song that isn't part of the original list (a smart shuffle
+// recommendation) stays current and is placed after the last original song
+// played before it.
+export function restoreOrder(
+  original: Song[],
+  playOrder: Song[],
+  currentIndex: number
+): { list: Song[]; index: number } {
+  const positionOf = (song: Song | undefined) =>
+    song ? original.findIndex(item => item.file_id === song.file_id) : -1;
+
+  const current = playOrder[currentIndex];
+  const position = positionOf(current);
+  if (position !== -1) {
+    return { list: original, index: position };
+  }
+
+  let anchor = -1;
+  for (let i = currentIndex - 1; i >= 0 && anchor === -1; i--) {
+    anchor = positionOf(playOrder[i]);
+  }
+
+  if (!current) {
+    return { list: original, index: Math.max(anchor, 0) };
+  }
+  return {
+    list: [...original.slice(0, anchor + 1), current, ...original.slice(anchor + 1)],
+    index: anchor + 1,
+  };
+}
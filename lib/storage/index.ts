@@ -0,0 +1,26 @@
+import { getServerConfig } from '@/lib/config';
+import { createLocalProvider } from './local';
+import { createPCloudProvider } from './pcloud';
+import { StorageProvider } from './types';
+
+export * from './types';
+
+let provider: StorageProvider | null = null;
+
+// Picks the backend configured by STORAGE_PROVIDER. The instance is shared
+// by every API route.
+export function getStorageProvider(): StorageProvider {
+  if (provider) return provider;
+
+  const { storage, linkCache } = getServerConfig();
+  provider = storage.provider === 'local'
+    ? createLocalProvider({ rootDir: storage.localDir })
+    : createPCloudProvider({
+        authToken: storage.pcloudAuthToken,
+        uploadFolderId: storage.pcloudUploadFolderId,
+        linkCacheTtlMs: linkCache.ttlMs,
+        linkCacheMaxEntries: linkCache.maxEntries,
+      });
+
+  return provider;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createLinkCache } from '@/lib/storage/linkCache';
+
+// A cache whose clock only moves when the test says so
+const cacheAt = (maxEntries: number, ttlMs: number) => {
+  const clock = { now: 0 };
+  const cache = createLinkCache<string>({ maxEntries, ttlMs, now: () => clock.now });
+  return { cache, clock };
+};
+
+describe('createLinkCache', () => {
+  it('returns a stored value until it expires', () => {
+    const { cache, clock } = cacheAt(10, 1000);
+    cache.set('a', 'link-a');
+
+    clock.now = 999;
+    expect(cache.get('a')).toBe('link-a');
+
+    clock.now = 1000;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('never keeps an entry past the cache TTL', () => {
+    const { cache, clock } = cacheAt(10, 1000);
+    cache.set('short', 'x', 100);
+    cache.set('long', 'y', 5000);
+
+    clock.now = 100;
+    expect(cache.get('short')).toBeUndefined();
+    expect(cache.get('long')).toBe('y');
+
+    clock.now = 1000;
+    expect(cache.get('long')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry once full', () => {
+    const { cache } = cacheAt(2, 1000);
+    cache.set('a', '1');
+    cache.set('b', '2');
+    // Reading `a` makes `b` the oldest
+    cache.get('a');
+    cache.set('c', '3');
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('a')).toBe('1');
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe('3');
+  });
+
+  it('replaces and deletes entries', () => {
+    const { cache, clock } = cacheAt(2, 1000);
+    cache.set('a', '1');
+    clock.now = 900;
+    cache.set('a', '2');
+
+    clock.now = 1500;
+    expect(cache.get('a')).toBe('2');
+    expect(cache.size).toBe(1);
+
+    cache.delete('a');
+    expect(cache.get('a')).toBeUndefined();
+  });
+});
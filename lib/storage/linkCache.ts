@@ -0,0 +1,55 @@
+interface Entry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface LinkCache<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T, ttlMs?: number): void;
+  delete(key: string): void;
+  readonly size: number;
+}
+
+interface LinkCacheOptions {
+  maxEntries: number;
+  ttlMs: number;
+  now?: () => number;
+}
+
+// Least-recently-used cache whose entries also expire after a TTL. Relies on
+// Map preserving insertion order: a hit is re-inserted at the end, so the
+// first key is always the least recently used one.
+export function createLinkCache<T>({ maxEntries, ttlMs, now = Date.now }: LinkCacheOptions): LinkCache<T> {
+  const entries = new Map<string, Entry<T>>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      entries.delete(key);
+      if (entry.expiresAt <= now()) return undefined;
+
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value, entryTtlMs = ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now() + Math.min(entryTtlMs, ttlMs) });
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+
+    delete(key) {
+      entries.delete(key);
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
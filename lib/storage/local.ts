@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { parseRange } from './range';
+import { StorageError, StorageProvider, StorageStat, StorageStream, StorageStreamOptions } from './types';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.flac': 'audio/flac',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+interface LocalOptions {
+  rootDir: string;
+}
+
+// Serves files from a plain directory. A file id maps to the file whose
+// name (without extension) equals the id, e.g. `1234.mp3` or `5678.jpg`,
+// so a dev box can mirror the ids stored in the `songs` table.
+export function createLocalProvider({ rootDir }: LocalOptions): StorageProvider {
+  const root = path.resolve(rootDir);
+  let index: Map<string, string> | null = null;
+
+  const buildIndex = async () => {
+    const entries = await fs.promises.readdir(root, { withFileTypes: true });
+    const next = new Map<string, string>();
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const id = path.parse(entry.name).name;
+      if (!next.has(id)) next.set(id, path.join(root, entry.name));
+    }
+    index = next;
+    return next;
+  };
+
+  // Ids end up in file paths, so no dots or slashes
+  const isValidId = (fileId: string) => /^[\w-]+$/.test(fileId);
+
+  const locate = async (fileId: string): Promise<string> => {
+    if (!isValidId(fileId)) {
+      throw new StorageError(`Invalid file id: ${fileId}`, 400);
+    }
+
+    let filePath = (index ?? (await buildIndex())).get(fileId);
+    if (!filePath) {
+      // Files may have been dropped into the folder since the last scan
+      filePath = (await buildIndex()).get(fileId);
+    }
+    if (!filePath) {
+      throw new StorageError(`File ${fileId} not found in ${root}`, 404);
+    }
+    return filePath;
+  };
+
+  const stat = async (fileId: string): Promise<StorageStat> => {
+    const filePath = await locate(fileId);
+    const { size } = await fs.promises.stat(filePath);
+    return {
+      size,
+      contentType: CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+    };
+  };
+
+  const resolveLink = async (fileId: string): Promise<string> => {
+    return pathToFileURL(await locate(fileId)).toString();
+  };
+
+  const stream = async (fileId: string, options: StorageStreamOptions = {}): Promise<StorageStream> => {
+    const filePath = await locate(fileId);
+    const { size, contentType } = await stat(fileId);
+    const range = parseRange(options.range, size);
+
+    if (range === 'unsatisfiable') {
+      throw new StorageError('Requested range not satisfiable', 416);
+    }
+
+    const headers: Record<string, string> = {
+      'accept-ranges': 'bytes',
+      'content-type': contentType,
+    };
+
+    if (!range) {
+      headers['content-length'] = String(size);
+      return { status: 200, headers, body: fs.createReadStream(filePath) };
+    }
+
+    headers['content-length'] = String(range.end - range.start + 1);
+    headers['content-range'] = `bytes ${range.start}-${range.end}/${size}`;
+    return {
+      status: 206,
+      headers,
+      body: fs.createReadStream(filePath, { start: range.start, end: range.end }),
+    };
+  };
+
+  // New files get a numeric id so they fit the integer id columns
+  const upload = async (fileName: string, data: Buffer): Promise<string> => {
+    const fileId = `${Date.now()}${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
+    const filePath = path.join(root, `${fileId}${path.extname(fileName).toLowerCase()}`);
+
+    await fs.promises.writeFile(filePath, data);
+    (index ?? (await buildIndex())).set(fileId, filePath);
+    return fileId;
+  };
+
+  return { name: 'local', isValidId, resolveLink, stream, stat, upload };
+}
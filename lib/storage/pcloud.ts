@@ -0,0 +1,148 @@
+import https from 'https';
+import type { IncomingHttpHeaders, IncomingMessage } from 'http';
+import { createLinkCache } from './linkCache';
+import { StorageError, StorageProvider, StorageStat, StorageStream, StorageStreamOptions } from './types';
+
+const API_BASE = 'https://api.pcloud.com';
+
+// Upstream statuses that mean the signed link is no longer valid
+const STALE_LINK_STATUSES = [403, 404, 410];
+// Refresh links a little before pCloud says they expire
+const EXPIRY_MARGIN_MS = 60_000;
+
+interface PCloudOptions {
+  authToken: string;
+  uploadFolderId: number;
+  linkCacheTtlMs: number;
+  linkCacheMaxEntries: number;
+}
+
+interface FileLink {
+  hosts: string[];
+  path: string;
+}
+
+function toHeaderRecord(headers: IncomingHttpHeaders): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    record[key] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return record;
+}
+
+function request(url: string, range?: string): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    https
+      .get(url, { headers: range ? { Range: range } : {} }, resolve)
+      .on('error', reject);
+  });
+}
+
+export function createPCloudProvider({ authToken, uploadFolderId, linkCacheTtlMs, linkCacheMaxEntries }: PCloudOptions): StorageProvider {
+  const links = createLinkCache<FileLink>({ maxEntries: linkCacheMaxEntries, ttlMs: linkCacheTtlMs });
+
+  const isValidId = (fileId: string) => /^\d+$/.test(fileId);
+
+  const callApi = async (method: string, fileId: string) => {
+    if (!isValidId(fileId)) {
+      throw new StorageError(`Invalid pCloud file id: ${fileId}`, 400);
+    }
+
+    const res = await fetch(`${API_BASE}/${method}?fileid=${fileId}&auth=${authToken}`);
+    const data = await res.json();
+
+    if (data.result !== 0) {
+      // 2009 = "File not found"
+      throw new StorageError(data.error || `pCloud ${method} failed`, data.result === 2009 ? 404 : 502);
+    }
+    return data;
+  };
+
+  const getLink = async (fileId: string, forceRefresh = false): Promise<FileLink> => {
+    if (!forceRefresh) {
+      const cached = links.get(fileId);
+      if (cached) return cached;
+    }
+
+    const data = await callApi('getfilelink', fileId);
+    if (!data.hosts?.length || !data.path) {
+      throw new StorageError('pCloud returned no download hosts', 502);
+    }
+
+    const link: FileLink = { hosts: data.hosts, path: data.path };
+    const expiresAt = data.expires ? Date.parse(data.expires) : NaN;
+    links.set(fileId, link, isNaN(expiresAt) ? undefined : expiresAt - Date.now() - EXPIRY_MARGIN_MS);
+    return link;
+  };
+
+  const resolveLink = async (fileId: string): Promise<string> => {
+    const { hosts, path } = await getLink(fileId);
+    return `https://${hosts[0]}${path}`;
+  };
+
+  // Tries every host of the cached link, then resolves a fresh link once and
+  // tries its hosts too before giving up.
+  const stream = async (fileId: string, options: StorageStreamOptions = {}): Promise<StorageStream> => {
+    let lastError: unknown = null;
+
+    for (const forceRefresh of [false, true]) {
+      const { hosts, path } = await getLink(fileId, forceRefresh);
+
+      for (const host of hosts) {
+        let upstream: IncomingMessage;
+        try {
+          upstream = await request(`https://${host}${path}`, options.range);
+        } catch (error) {
+          console.warn(`pCloud host ${host} unreachable for ${fileId}:`, error);
+          lastError = error;
+          continue;
+        }
+
+        const status = upstream.statusCode || 200;
+        if (status < 400 || status === 416) {
+          return { status, headers: toHeaderRecord(upstream.headers), body: upstream };
+        }
+
+        upstream.resume(); // discard the error body
+        lastError = new StorageError(`pCloud host ${host} responded ${status}`, 502);
+
+        // An expired link fails the same way on every host
+        if (STALE_LINK_STATUSES.includes(status)) break;
+      }
+
+      links.delete(fileId);
+    }
+
+    console.error(`All pCloud hosts failed for ${fileId}:`, lastError);
+    throw lastError instanceof StorageError ? lastError : new StorageError('All pCloud hosts failed', 502);
+  };
+
+  const stat = async (fileId: string): Promise<StorageStat> => {
+    const data = await callApi('stat', fileId);
+    return {
+      size: data.metadata?.size ?? 0,
+      contentType: data.metadata?.contenttype || 'application/octet-stream',
+    };
+  };
+
+  const upload = async (fileName: string, data: Buffer): Promise<string> => {
+    const params = new URLSearchParams({
+      auth: authToken,
+      folderid: String(uploadFolderId),
+      filename: fileName,
+      nopartial: '1',
+    });
+
+    // With `filename` set, pCloud takes the raw request body as the file
+    const res = await fetch(`${API_BASE}/uploadfile?${params}`, { method: 'PUT', body: data });
+    const result = await res.json();
+
+    if (result.result !== 0 || !result.fileids?.length) {
+      throw new StorageError(result.error || 'pCloud upload failed', 502);
+    }
+    return String(result.fileids[0]);
+  };
+
+  return { name: 'pcloud', isValidId, resolveLink, stream, stat, upload };
+}
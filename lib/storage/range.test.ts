@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { addRange, isRangeCovered, parseRange, rangeSetLength } from '@/lib/storage/range';
+
+describe('parseRange', () => {
+  it('returns null without a header', () => {
+    expect(parseRange(undefined, 1000)).toBeNull();
+    expect(parseRange('', 1000)).toBeNull();
+  });
+
+  it('parses a closed range', () => {
+    expect(parseRange('bytes=100-199', 1000)).toEqual({ start: 100, end: 199 });
+  });
+
+  it('runs an open range to the end of the file', () => {
+    expect(parseRange('bytes=100-', 1000)).toEqual({ start: 100, end: 999 });
+  });
+
+  it('clamps the end to the file size', () => {
+    expect(parseRange('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('reads a suffix range as the last bytes of the file', () => {
+    expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('ignores headers it does not understand', () => {
+    expect(parseRange('bytes=-', 1000)).toBeNull();
+    expect(parseRange('bytes=0-99,200-299', 1000)).toBeNull();
+    expect(parseRange('items=0-99', 1000)).toBeNull();
+  });
+
+  it('rejects ranges outside the file', () => {
+    expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=500-100', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable');
+  });
+});
+
+describe('addRange', () => {
+  it('keeps separate ranges sorted', () => {
+    expect(addRange([[100, 199]], 0, 49)).toEqual([[0, 49], [100, 199]]);
+    expect(addRange([[0, 49]], 100, 199)).toEqual([[0, 49], [100, 199]]);
+  });
+
+  it('merges overlapping and adjacent ranges', () => {
+    expect(addRange([[0, 99]], 50, 149)).toEqual([[0, 149]]);
+    expect(addRange([[0, 99]], 100, 199)).toEqual([[0, 199]]);
+  });
+
+  it('bridges the ranges a new one spans', () => {
+    expect(addRange([[0, 9], [20, 29], [40, 49], [80, 89]], 5, 45)).toEqual([[0, 49], [80, 89]]);
+  });
+});
+
+describe('isRangeCovered', () => {
+  const ranges: [number, number][] = [[0, 99], [200, 299]];
+
+  it('is true only when one range holds all the bytes', () => {
+    expect(isRangeCovered(ranges, 10, 99)).toBe(true);
+    expect(isRangeCovered(ranges, 90, 210)).toBe(false);
+    expect(isRangeCovered(ranges, 250, 300)).toBe(false);
+    expect(isRangeCovered([], 0, 0)).toBe(false);
+  });
+});
+
+describe('rangeSetLength', () => {
+  it('counts the bytes of inclusive ranges', () => {
+    expect(rangeSetLength([[0, 99], [200, 200]])).toBe(101);
+    expect(rangeSetLength([])).toBe(0);
+  });
+});
@@ -0,0 +1,62 @@
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+// Parses a single-range `bytes=` header against a known file size.
+// Returns null when no (usable) range was requested and 'unsatisfiable'
+// when the range lies outside the file.
+export function parseRange(header: string | undefined, size: number): ByteRange | null | 'unsatisfiable' {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, rawStart, rawEnd] = match;
+  let start: number;
+  let end: number;
+
+  if (rawStart === '') {
+    // Suffix range: last N bytes
+    if (rawEnd === '') return null;
+    const suffix = parseInt(rawEnd, 10);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(rawStart, 10);
+    end = rawEnd === '' ? size - 1 : Math.min(parseInt(rawEnd, 10), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+// Sorted, non-overlapping list of inclusive [start, end] byte ranges
+export type RangeSet = [number, number][];
+
+export function addRange(ranges: RangeSet, start: number, end: number): RangeSet {
+  const merged: RangeSet = [];
+  let next: [number, number] = [start, end];
+
+  for (const range of ranges) {
+    if (range[1] + 1 < next[0]) {
+      merged.push(range);
+    } else if (next[1] + 1 < range[0]) {
+      merged.push(next);
+      next = range;
+    } else {
+      next = [Math.min(range[0], next[0]), Math.max(range[1], next[1])];
+    }
+  }
+  merged.push(next);
+  return merged;
+}
+
+export function isRangeCovered(ranges: RangeSet, start: number, end: number): boolean {
+  return ranges.some(([from, to]) => from <= start && to >= end);
+}
+
+export function rangeSetLength(ranges: RangeSet): number {
+  return ranges.reduce((total, [from, to]) => total + (to - from + 1), 0);
+}
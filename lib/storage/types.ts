@@ -0,0 +1,40 @@
+import type { Readable } from 'stream';
+
+export interface StorageStat {
+  size: number;
+  contentType: string;
+}
+
+export interface StorageStreamOptions {
+  // Raw value of an incoming `Range` header, forwarded as-is
+  range?: string;
+}
+
+export interface StorageStream {
+  status: number;
+  headers: Record<string, string>;
+  body: Readable;
+}
+
+// A backend that can serve the audio and artwork files referenced by
+// `songs.file_id` / `songs.img_id`. Only ever used server-side.
+export interface StorageProvider {
+  name: string;
+  // Whether `fileId` has the shape of one of this backend's ids
+  isValidId(fileId: string): boolean;
+  resolveLink(fileId: string): Promise<string>;
+  stream(fileId: string, options?: StorageStreamOptions): Promise<StorageStream>;
+  stat(fileId: string): Promise<StorageStat>;
+  // Stores a new file and returns the id it can be streamed back with
+  upload(fileName: string, data: Buffer): Promise<string>;
+}
+
+export class StorageError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'StorageError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,46 @@
+import type { NextApiRequest } from 'next';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
+import { getServerConfig } from '@/lib/config';
+import { publicConfig } from '@/lib/publicConfig';
+
+export interface RequestAuth {
+  user: User;
+  supabase: SupabaseClient;
+}
+
+// Authenticates an API request from the Supabase access token the browser
+// sends as `Authorization: Bearer <token>` (see lib/apiClient.ts). Queries
+// made through the returned client run as that user, so row level security
+// applies exactly as it does in the browser.
+export async function getRequestAuth(req: NextApiRequest): Promise<RequestAuth | null> {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) return null;
+
+  const token = header.slice('Bearer '.length);
+  const supabase = createClient(publicConfig.supabaseUrl, publicConfig.supabaseAnonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return { user: data.user, supabase };
+}
+
+let serviceClient: SupabaseClient | null = null;
+
+// Client with the service role key for server jobs that update catalog rows
+// users can't write to. Bypasses row level security: never use it to act on
+// behalf of a request. Null when SUPABASE_SERVICE_ROLE_KEY is not set.
+export function getServiceSupabase(): SupabaseClient | null {
+  const { supabaseServiceRoleKey } = getServerConfig();
+  if (!supabaseServiceRoleKey) return null;
+
+  if (!serviceClient) {
+    serviceClient = createClient(publicConfig.supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+  return serviceClient;
+}
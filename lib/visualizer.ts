@@ -0,0 +1,73 @@
+// Drawing for the maximized player's visualizer. Each style paints one frame
+// from the analyser's current data onto a canvas.
+
+export type VisualizerStyle = 'off' | 'bars' | 'mirror' | 'wave';
+
+export const VISUALIZER_STYLES: { value: VisualizerStyle; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'bars', label: 'Spectrum' },
+  { value: 'mirror', label: 'Mirrored bars' },
+  { value: 'wave', label: 'Waveform' },
+];
+
+// The top bins hold little music, so the spectrum stops short of them
+const SPECTRUM_SHARE = 0.7;
+const BAR_COUNT = 48;
+const BAR_GAP = 2;
+
+export interface Frame {
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  // Bytes the analyser filled in for this frame (frequency or time domain)
+  data: Uint8Array;
+  color: string;
+}
+
+// The visualizer reads frequency data for the bar styles, samples for the wave
+export function usesTimeDomain(style: VisualizerStyle): boolean {
+  return style === 'wave';
+}
+
+// Averages the used part of the spectrum down to BAR_COUNT levels from 0 to 1
+function barLevels(data: Uint8Array): number[] {
+  const bins = Math.floor(data.length * SPECTRUM_SHARE);
+  return Array.from({ length: BAR_COUNT }, (_, i) => {
+    const start = Math.floor((i * bins) / BAR_COUNT);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * bins) / BAR_COUNT));
+    let sum = 0;
+    for (let bin = start; bin < end; bin++) sum += data[bin];
+    return sum / (end - start) / 255;
+  });
+}
+
+function drawBars({ ctx, width, height, data, color }: Frame, mirrored: boolean) {
+  const barWidth = width / BAR_COUNT - BAR_GAP;
+  ctx.fillStyle = color;
+  barLevels(data).forEach((level, i) => {
+    const barHeight = Math.max(2, level * height);
+    const x = i * (barWidth + BAR_GAP);
+    const y = mirrored ? (height - barHeight) / 2 : height - barHeight;
+    ctx.fillRect(x, y, barWidth, barHeight);
+  });
+}
+
+function drawWave({ ctx, width, height, data, color }: Frame) {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  data.forEach((sample, i) => {
+    const x = (i / (data.length - 1)) * width;
+    const y = (sample / 255) * height;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.stroke();
+}
+
+export function drawFrame(style: VisualizerStyle, frame: Frame) {
+  frame.ctx.clearRect(0, 0, frame.width, frame.height);
+  if (style === 'bars') drawBars(frame, false);
+  else if (style === 'mirror') drawBars(frame, true);
+  else if (style === 'wave') drawWave(frame);
+}
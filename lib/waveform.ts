@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import { getServerConfig } from '@/lib/config';
+import { runFfmpeg } from '@/lib/ffmpeg';
+
+// Peaks for the player's waveform seek bar. Each song is decoded once by
+// ffmpeg to low-rate mono PCM and reduced to WAVEFORM_PEAKS values (0-100,
+// scaled to the song's loudest moment), which are kept on disk by file_id.
+
+export const WAVEFORM_PEAKS = 200;
+
+// Plenty to find peaks with, and keeps decoding cheap
+const SAMPLE_RATE = 8000;
+// Peaks are first collected per WINDOW_SAMPLES (0.1s), as the length of the
+// song isn't known until it has been decoded
+const WINDOW_SAMPLES = 800;
+
+const inFlight = new Map<string, Promise<number[]>>();
+
+async function computePeaks(fileId: string): Promise<number[]> {
+  const windows: number[] = [];
+  let windowPeak = 0;
+  let windowFill = 0;
+  // A chunk can end halfway through a 16-bit sample
+  let carry: Buffer | null = null;
+
+  await runFfmpeg(fileId, ['-vn', '-ac', '1', '-ar', String(SAMPLE_RATE), '-f', 's16le', '-'], chunk => {
+    const data: Buffer = carry ? Buffer.concat([carry, chunk]) : chunk;
+    const usable = data.length - (data.length % 2);
+    carry = usable < data.length ? data.subarray(usable) : null;
+
+    for (let offset = 0; offset < usable; offset += 2) {
+      windowPeak = Math.max(windowPeak, Math.abs(data.readInt16LE(offset)));
+      if (++windowFill === WINDOW_SAMPLES) {
+        windows.push(windowPeak);
+        windowPeak = 0;
+        windowFill = 0;
+      }
+    }
+  });
+  if (windowFill > 0) windows.push(windowPeak);
+
+  if (windows.length === 0) return new Array(WAVEFORM_PEAKS).fill(0);
+
+  const peaks = Array.from({ length: WAVEFORM_PEAKS }, (_, i) => {
+    const start = Math.floor((i * windows.length) / WAVEFORM_PEAKS);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * windows.length) / WAVEFORM_PEAKS));
+    return Math.max(...windows.slice(start, end));
+  });
+
+  const loudest = Math.max(...peaks);
+  return peaks.map(peak => (loudest > 0 ? Math.round((peak / loudest) * 100) : 0));
+}
+
+// Returns a song's peaks, computing them on first use and reading them from
+// the disk cache after that. Concurrent requests for a song share the work.
+export async function getWaveform(fileId: string): Promise<number[]> {
+  const { waveformCacheDir } = getServerConfig();
+  const cachePath = path.join(waveformCacheDir, `${fileId}.json`);
+
+  try {
+    return JSON.parse(await fs.promises.readFile(cachePath, 'utf8'));
+  } catch {
+    // Not cached yet
+  }
+
+  const pending = inFlight.get(fileId);
+  if (pending) return pending;
+
+  const task = (async () => {
+    const peaks = await computePeaks(fileId);
+    await fs.promises.mkdir(waveformCacheDir, { recursive: true });
+    // Write-then-rename so readers never see a half-written file
+    const tempPath = `${cachePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(peaks));
+    await fs.promises.rename(tempPath, cachePath);
+    return peaks;
+  })();
+
+  inFlight.set(fileId, task);
+  try {
+    return await task;
+  } finally {
+    inFlight.delete(fileId);
+  }
+}
@@ -3,6 +3,10 @@ const nextConfig = {
   images: {
     domains: ['images.pexels.com'],
   },
+  experimental: {
+    // Validates server configuration at boot (see instrumentation.ts)
+    instrumentationHook: true,
+  },
 }
 
-module.exports = nextConfig
\ No newline at end of file
+module.exports = nextConfig
@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { getAudioCache } from '@/lib/audioCache';
+
+// GET returns hit/miss/eviction stats for the disk audio cache,
+// DELETE empties it (entries that are mid-stream are kept).
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireAdmin(req, res)) return;
+
+  const cache = getAudioCache();
+  if (!cache) {
+    return res.status(200).json({ enabled: false });
+  }
+
+  try {
+    if (req.method === 'DELETE') {
+      await cache.clear();
+    } else if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET, DELETE');
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    res.status(200).json({ enabled: true, ...(await cache.getStats()) });
+  } catch (error) {
+    console.error('Audio cache admin error:', error);
+    res.status(500).json({ error: 'Failed to read audio cache' });
+  }
+}
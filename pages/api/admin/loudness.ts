@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { getLoudnessStatus, LoudnessError, runLoudnessJob } from '@/lib/loudness';
+
+const DEFAULT_BATCH = 10;
+const MAX_BATCH = 100;
+
+// GET returns how many songs have loudness data, POST `?limit=<n>` analyzes
+// the next batch of songs without it (default 10, at most 100).
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json(await getLoudnessStatus());
+    }
+
+    if (req.method === 'POST') {
+      const limit = Math.min(MAX_BATCH, Math.max(1, Number(req.query.limit) || DEFAULT_BATCH));
+      return res.status(200).json(await runLoudnessJob(limit));
+    }
+
+    res.setHeader('Allow', 'GET, POST');
+    res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof LoudnessError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error('Loudness admin error:', error);
+    res.status(500).json({ error: 'Loudness analysis failed' });
+  }
+}
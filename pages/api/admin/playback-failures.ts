@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { getServiceSupabase } from '@/lib/supabaseServer';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// GET `?limit=<n>` lists the songs that failed to play most often (default
+// 50, at most 500), DELETE `?fileid=<id>` resets a song's counter once its
+// file has been fixed.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireAdmin(req, res)) return;
+
+  const supabase = getServiceSupabase();
+  if (!supabase) {
+    return res.status(503).json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not set' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const limit = Math.min(MAX_LIMIT, Math.max(1, Number(req.query.limit) || DEFAULT_LIMIT));
+      const { data, error } = await supabase
+        .from('playback_failures')
+        .select('song_file_id, failures, last_error, last_failed_at')
+        .order('failures', { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+      return res.status(200).json({ songs: data });
+    }
+
+    if (req.method === 'DELETE') {
+      const fileid = req.query.fileid;
+      if (typeof fileid !== 'string' || !/^\d+$/.test(fileid)) {
+        return res.status(400).json({ error: 'Missing or invalid fileid' });
+      }
+      const { error } = await supabase.from('playback_failures').delete().eq('song_file_id', Number(fileid));
+      if (error) throw error;
+      return res.status(204).end();
+    }
+
+    res.setHeader('Allow', 'GET, DELETE');
+    res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Playback failures admin error:', error);
+    res.status(500).json({ error: 'Failed to read playback failures' });
+  }
+}
@@ -1,32 +1,52 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
-
-const AUTH_TOKEN = 'fE93KkZMjhg7ZtHMudQY9CHj5m8MDH3CFxLEKsw1y';
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const fileid = req.query.fileid as string;
-
-  if (!fileid) {
-    return res.status(400).json({ error: 'Missing fileid' });
-  }
-
-  try {
-    const meta = await fetch(`https://api.pcloud.com/getfilelink?fileid=${fileid}&auth=${AUTH_TOKEN}`);
-    const json = await meta.json();
-
-    if (json.result !== 0) {
-      return res.status(500).json({ error: json.error });
-    }
-
-    const fileUrl = `https://${json.hosts[0]}${json.path}`;
-    const imageRes = await fetch(fileUrl);
-
-    res.setHeader('Content-Type', imageRes.headers.get('Content-Type') || 'image/jpeg');
-    res.setHeader('Cache-Control', 'public, max-age=86400');
-
-    const buffer = await imageRes.arrayBuffer();
-    res.send(Buffer.from(buffer));
-  } catch (err) {
-    console.error('Image proxy error:', err);
-    res.status(500).json({ error: 'Failed to fetch image' });
-  }
-}
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getImageVariant, IMAGE_FORMATS, ImageFormat, negotiateFormat, snapWidth } from '@/lib/imageVariants';
+import { getStorageProvider, StorageError } from '@/lib/storage';
+
+// GET /api/image-proxy?fileid=<id>[&w=<px>][&format=webp|avif|jpeg]
+// Without `format` the best format from the Accept header is used.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const fileid = req.query.fileid;
+  if (typeof fileid !== 'string' || !getStorageProvider().isValidId(fileid)) {
+    return res.status(400).json({ error: 'Missing or invalid fileid' });
+  }
+
+  const rawWidth = req.query.w as string | undefined;
+  // Digits only: parseInt would read `100abc` as 100
+  if (rawWidth !== undefined && !/^[1-9]\d*$/.test(rawWidth)) {
+    return res.status(400).json({ error: 'Invalid w' });
+  }
+  const requestedWidth = rawWidth ? parseInt(rawWidth, 10) : null;
+
+  const rawFormat = req.query.format as string | undefined;
+  if (rawFormat && !IMAGE_FORMATS.includes(rawFormat as ImageFormat)) {
+    return res.status(400).json({ error: `format must be one of ${IMAGE_FORMATS.join(', ')}` });
+  }
+  const format = (rawFormat as ImageFormat | undefined) ?? negotiateFormat(req.headers.accept);
+
+  try {
+    const variant = await getImageVariant(fileid, {
+      width: requestedWidth ? snapWidth(requestedWidth) : null,
+      format,
+    });
+
+    res.setHeader('Cache-Control', 'public, max-age=604800');
+    res.setHeader('ETag', variant.etag);
+    if (!rawFormat) {
+      res.setHeader('Vary', 'Accept');
+    }
+
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifNoneMatch?.split(',').some(tag => tag.trim() === variant.etag)) {
+      return res.status(304).end();
+    }
+
+    res.setHeader('Content-Type', variant.contentType);
+    res.send(variant.buffer);
+  } catch (err) {
+    if (err instanceof StorageError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error('Image proxy error:', err);
+    res.status(500).json({ error: 'Failed to fetch image' });
+  }
+}
@@ -0,0 +1,152 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sharp from 'sharp';
+import { getPlaylistCollage } from '@/lib/collage';
+import { IMAGE_FORMATS, ImageFormat, negotiateFormat, snapWidth } from '@/lib/imageVariants';
+import { getStorageProvider, StorageError } from '@/lib/storage';
+import { getRequestAuth } from '@/lib/supabaseServer';
+
+const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
+const COVER_SIZE = 960;
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '6mb' } }, // base64 inflates the 4 MB image
+};
+
+// GET    ?covers=<img_id>,...[&w=][&format=]  2x2 collage of the given covers
+// POST   { playlistId, image: <data URL> }     upload a custom playlist cover
+// DELETE ?playlistId=<id>                      go back to the generated collage
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  switch (req.method) {
+    case 'GET':
+      return getCollage(req, res);
+    case 'POST':
+      return uploadCover(req, res);
+    case 'DELETE':
+      return resetCover(req, res);
+    default:
+      res.setHeader('Allow', 'GET, POST, DELETE');
+      return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
+
+async function getCollage(req: NextApiRequest, res: NextApiResponse) {
+  const covers = ((req.query.covers as string) || '').split(',').filter(Boolean);
+  if (covers.length === 0 || covers.length > 4 || covers.some(id => !/^\d+$/.test(id))) {
+    return res.status(400).json({ error: 'covers must list 1 to 4 numeric image ids' });
+  }
+
+  const rawFormat = req.query.format as string | undefined;
+  if (rawFormat && !IMAGE_FORMATS.includes(rawFormat as ImageFormat)) {
+    return res.status(400).json({ error: `format must be one of ${IMAGE_FORMATS.join(', ')}` });
+  }
+  const format = (rawFormat as ImageFormat | undefined) ?? negotiateFormat(req.headers.accept);
+  const width = snapWidth(parseInt(req.query.w as string, 10) || 320);
+
+  try {
+    const collage = await getPlaylistCollage(covers, width, format);
+
+    res.setHeader('Cache-Control', 'public, max-age=604800');
+    res.setHeader('ETag', collage.etag);
+    if (!rawFormat) {
+      res.setHeader('Vary', 'Accept');
+    }
+
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifNoneMatch?.split(',').some(tag => tag.trim() === collage.etag)) {
+      return res.status(304).end();
+    }
+
+    res.setHeader('Content-Type', collage.contentType);
+    res.send(collage.buffer);
+  } catch (err) {
+    if (err instanceof StorageError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error('Playlist collage error:', err);
+    res.status(500).json({ error: 'Failed to build playlist cover' });
+  }
+}
+
+async function uploadCover(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getRequestAuth(req);
+  if (!auth) {
+    return res.status(401).json({ error: 'Sign in to change playlist covers' });
+  }
+
+  const { playlistId, image } = req.body ?? {};
+  const match = typeof image === 'string' ? /^data:image\/[\w.+-]+;base64,(.+)$/.exec(image) : null;
+  if (!playlistId || !match) {
+    return res.status(400).json({ error: 'Expected { playlistId, image: <data URL> }' });
+  }
+
+  const source = Buffer.from(match[1], 'base64');
+  if (source.length > MAX_UPLOAD_BYTES) {
+    return res.status(413).json({ error: 'Cover images must be 4 MB or smaller' });
+  }
+
+  let cover: Buffer;
+  try {
+    cover = await sharp(source)
+      .rotate()
+      .resize({ width: COVER_SIZE, height: COVER_SIZE, fit: 'cover', withoutEnlargement: true })
+      .jpeg({ quality: 85, mozjpeg: true })
+      .toBuffer();
+  } catch {
+    return res.status(400).json({ error: 'Unsupported image' });
+  }
+
+  try {
+    const { data: playlist } = await auth.supabase
+      .from('playlists')
+      .select('id')
+      .eq('id', parseInt(playlistId))
+      .eq('user_id', auth.user.id)
+      .maybeSingle();
+
+    if (!playlist) {
+      return res.status(404).json({ error: 'Playlist not found' });
+    }
+
+    const coverImgId = await getStorageProvider().upload(`playlist-${playlist.id}-${Date.now()}.jpg`, cover);
+
+    const { error } = await auth.supabase
+      .from('playlists')
+      .update({ cover_img_id: parseInt(coverImgId) })
+      .eq('id', playlist.id)
+      .eq('user_id', auth.user.id);
+
+    if (error) throw error;
+
+    res.status(200).json({ coverImgId: parseInt(coverImgId) });
+  } catch (err) {
+    if (err instanceof StorageError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error('Playlist cover upload error:', err);
+    res.status(500).json({ error: 'Failed to upload cover' });
+  }
+}
+
+async function resetCover(req: NextApiRequest, res: NextApiResponse) {
+  const auth = await getRequestAuth(req);
+  if (!auth) {
+    return res.status(401).json({ error: 'Sign in to change playlist covers' });
+  }
+
+  const playlistId = parseInt(req.query.playlistId as string);
+  if (!playlistId) {
+    return res.status(400).json({ error: 'Missing playlistId' });
+  }
+
+  const { error } = await auth.supabase
+    .from('playlists')
+    .update({ cover_img_id: null })
+    .eq('id', playlistId)
+    .eq('user_id', auth.user.id);
+
+  if (error) {
+    console.error('Playlist cover reset error:', error);
+    return res.status(500).json({ error: 'Failed to reset cover' });
+  }
+  res.status(204).end();
+}
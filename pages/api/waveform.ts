@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { FfmpegError } from '@/lib/ffmpeg';
+import { StorageError } from '@/lib/storage';
+import { getWaveform } from '@/lib/waveform';
+
+// GET /api/waveform?fileid=<id> returns `{ peaks }` for the seek bar. A
+// song's audio never changes, so neither do its peaks.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const fileid = req.query.fileid;
+  // Also the cache file name, so nothing but digits
+  if (typeof fileid !== 'string' || !/^\d+$/.test(fileid)) {
+    return res.status(400).json({ error: 'Missing or invalid fileid' });
+  }
+
+  const etag = `"waveform-${fileid}"`;
+  res.setHeader('Cache-Control', 'public, max-age=604800');
+  res.setHeader('ETag', etag);
+
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch?.split(',').some(tag => tag.trim() === etag)) {
+    return res.status(304).end();
+  }
+
+  try {
+    res.status(200).json({ peaks: await getWaveform(fileid) });
+  } catch (error) {
+    res.removeHeader('Cache-Control');
+    res.removeHeader('ETag');
+    if (error instanceof StorageError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof FfmpegError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error('Waveform error:', error);
+    res.status(500).json({ error: 'Failed to compute waveform' });
+  }
+}
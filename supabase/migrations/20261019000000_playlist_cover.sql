@@ -0,0 +1,4 @@
+-- Custom playlist covers uploaded through /api/playlist-cover. NULL means the
+-- cover is generated from the playlist's songs.
+alter table public.playlists
+  add column if not exists cover_img_id bigint;
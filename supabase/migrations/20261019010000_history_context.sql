@@ -0,0 +1,4 @@
+-- Where a song was last played from (playlist, liked songs, search, ...), as
+-- the PlaybackContext object the client sends. NULL for older rows.
+alter table public.history
+  add column if not exists last_context jsonb;
@@ -0,0 +1,5 @@
+-- Loudness measured by POST /api/admin/loudness (EBU R128 through ffmpeg).
+-- NULL means the song hasn't been analyzed yet and plays without normalization.
+alter table public.songs
+  add column if not exists loudness_lufs real,
+  add column if not exists peak_dbfs real;
@@ -0,0 +1,3 @@
+-- Equalizer presets saved by the user: [{ "id", "name", "gains": [10 x dB] }]
+alter table public.users
+  add column if not exists eq_presets jsonb not null default '[]'::jsonb;
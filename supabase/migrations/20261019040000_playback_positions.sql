@@ -0,0 +1,19 @@
+-- Where each user left off in each song, saved every few seconds while
+-- playing so the last song and long tracks can resume. Rows are removed once
+-- a song is played to the end.
+create table if not exists public.playback_positions (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  song_file_id bigint not null,
+  position real not null,
+  duration real not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, song_file_id)
+);
+
+alter table public.playback_positions enable row level security;
+
+create policy "Users manage their own playback positions"
+  on public.playback_positions
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,21 @@
+-- Named positions within songs, so musicians can jump back to the passages
+-- they practice. Listed under the full player for the song playing.
+create table if not exists public.track_bookmarks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  song_file_id bigint not null,
+  position real not null check (position >= 0),
+  name text not null check (char_length(name) between 1 and 60),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists track_bookmarks_user_song_idx
+  on public.track_bookmarks (user_id, song_file_id, position);
+
+alter table public.track_bookmarks enable row level security;
+
+create policy "Users manage their own bookmarks"
+  on public.track_bookmarks
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
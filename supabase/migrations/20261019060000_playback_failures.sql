@@ -0,0 +1,29 @@
+-- How often each song failed to play (the player gave up retrying and
+-- skipped it), for spotting broken files. Read through
+-- /api/admin/playback-failures with the service role; users can only add to
+-- the counter, through record_playback_failure().
+create table if not exists public.playback_failures (
+  song_file_id bigint primary key,
+  failures integer not null default 0,
+  last_error text,
+  last_failed_at timestamptz not null default now()
+);
+
+alter table public.playback_failures enable row level security;
+
+create or replace function public.record_playback_failure(p_song_file_id bigint, p_error text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.playback_failures (song_file_id, failures, last_error, last_failed_at)
+  values (p_song_file_id, 1, left(p_error, 500), now())
+  on conflict (song_file_id) do update
+    set failures = playback_failures.failures + 1,
+        last_error = excluded.last_error,
+        last_failed_at = excluded.last_failed_at;
+$$;
+
+revoke all on function public.record_playback_failure(bigint, text) from public, anon;
+grant execute on function public.record_playback_failure(bigint, text) to authenticated;
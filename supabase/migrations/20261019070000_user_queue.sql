@@ -0,0 +1,15 @@
+-- The player's queue and current list for each user (lib/queueSnapshot.ts),
+-- saved a few seconds after it changes so another device can pick it up.
+create table if not exists public.user_queue (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  snapshot jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_queue enable row level security;
+
+create policy "Users manage their own queue"
+  on public.user_queue
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -7,6 +7,8 @@ export interface Song {
   tags: string[];
   views: number;
   likes: number;
+  loudness?: number | null; // integrated loudness in LUFS, null until analyzed
+  peak?: number | null; // true peak in dBFS
   // UI-specific fields
   id: string; // derived from file_id
   image: string; // derived from img_id
@@ -21,6 +23,7 @@ export interface Playlist {
   image: string;
   songs: Song[];
   user_id?: string;
+  coverImgId?: number; // custom cover uploaded by the owner
 }
 
 export interface User {
@@ -31,4 +34,32 @@ export interface User {
   created_at: string;
   last_login?: string;
   last_song_file_id?: number;
-}
\ No newline at end of file
+}
+
+// Equalizer preset: one gain in dB per band of lib/equalizer.ts
+export interface EqPreset {
+  id: string;
+  name: string;
+  gains: number[];
+}
+
+// Named position within a song, saved per user
+export interface Bookmark {
+  id: string;
+  fileId: number;
+  position: number; // seconds
+  name: string;
+}
+
+// Home page shelves, plus `radio`: recommendations the player queues up
+// itself after the song the user picked
+export type RecommendationBatch = 'trending' | 'recently-played' | 'made-for-you' | 'radio';
+
+// Where playback was started from
+export type PlaybackContext =
+  | { type: 'playlist'; playlistId: string; name: string }
+  | { type: 'liked' }
+  | { type: 'search'; query: string }
+  | { type: 'artist'; artist: string }
+  | { type: 'recommendations'; batch: RecommendationBatch }
+  | { type: 'queue' };
@@ -0,0 +1,10 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // tsconfig keeps JSX for Next.js to compile
+  esbuild: { jsx: 'automatic' },
+  resolve: {
+    alias: { '@': path.resolve(__dirname) },
+  },
+});